@@ -0,0 +1,139 @@
+import type { AddressInfo } from "node:net";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { DEFAULT_BOARD } from "../src/lib/board";
+import type { LiveMessage, PushRequest } from "../src/lib/sync";
+import { createSyncServer } from "./app";
+import { createBoardStore } from "./store";
+
+const TOKEN = "secret";
+
+let dataDir: string;
+let server: ReturnType<typeof createSyncServer>;
+let baseUrl: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "sync-server-"));
+  server = createSyncServer({
+    store: await createBoardStore(dataDir),
+    token: TOKEN,
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const api = (pathname: string, init: RequestInit = {}, token = TOKEN) =>
+  fetch(`${baseUrl}${pathname}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+const push = (boardId: string, request: PushRequest) =>
+  api(`/api/boards/${boardId}`, {
+    method: "PUT",
+    body: JSON.stringify(request),
+  });
+
+const firstPush: PushRequest = {
+  name: "Home",
+  baseRevision: null,
+  board: DEFAULT_BOARD,
+};
+
+describe("sync server", () => {
+  it("stores a pushed board and serves it back", async () => {
+    const pushed = await push("home", firstPush);
+    expect(pushed.status).toBe(200);
+    expect(await pushed.json()).toMatchObject({ id: "home", revision: 1 });
+
+    const fetched = await api("/api/boards/home");
+    expect(fetched.status).toBe(200);
+    expect(await fetched.json()).toMatchObject({
+      id: "home",
+      name: "Home",
+      revision: 1,
+      board: { sections: DEFAULT_BOARD.sections },
+    });
+
+    const list = await (await api("/api/boards")).json();
+    expect(list).toHaveProperty("boards", [
+      expect.objectContaining({ id: "home", revision: 1 }),
+    ]);
+  });
+
+  it("answers 404 for boards it doesn't have", async () => {
+    expect((await api("/api/boards/nope")).status).toBe(404);
+  });
+
+  it("rejects a push based on a stale revision with the current board", async () => {
+    await push("home", firstPush);
+    await push("home", { ...firstPush, name: "Home 2", baseRevision: 1 });
+
+    const stale = await push("home", { ...firstPush, baseRevision: 1 });
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toMatchObject({
+      current: { revision: 2, name: "Home 2" },
+    });
+  });
+
+  it("needs the token", async () => {
+    expect((await api("/api/boards", {}, "wrong")).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/boards?token=${TOKEN}`)).status).toBe(
+      200
+    );
+  });
+
+  it("rejects invalid boards and board ids", async () => {
+    const invalid = await push("home", {
+      ...firstPush,
+      board: { ...DEFAULT_BOARD, sections: "none" } as never,
+    });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      details: expect.arrayContaining([
+        expect.objectContaining({ path: expect.any(String) }),
+      ]),
+    });
+
+    expect((await push("not.valid", firstPush)).status).toBe(400);
+    const undecodable = await api("/api/boards/%E0%A4%A");
+    expect(undecodable.status).toBe(400);
+    expect(await undecodable.json()).toMatchObject({
+      error: "Invalid board id",
+    });
+  });
+
+  it("announces pushes to subscribed sockets", async () => {
+    const socket = new WebSocket(
+      `${baseUrl.replace("http", "ws")}/api/live?token=${TOKEN}`
+    );
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+    socket.send(JSON.stringify({ type: "subscribe", boardIds: ["home"] }));
+    const announced = new Promise<LiveMessage>((resolve) =>
+      socket.once("message", (data) => resolve(JSON.parse(data.toString())))
+    );
+    // Let the subscription arrive before pushing
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await push("home", firstPush);
+    expect(await announced).toMatchObject({
+      type: "updated",
+      board: { id: "home", name: "Home", revision: 1 },
+    });
+    socket.close();
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import { isRecord } from "../src/lib/schema";
+import type { LiveMessage, PushRequest } from "../src/lib/sync";
+import { isValidBoardId, summarize, type BoardStore } from "./store";
+
+export interface SyncServerOptions {
+  store: BoardStore;
+  /** When set, every request needs it as a bearer token (or `?token=`). */
+  token?: string;
+}
+
+/** Boards are small; anything bigger than this is a mistake. */
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const BOARD_PATH = /^\/api\/boards\/([^/]+)$/;
+
+class HttpError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Board is too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Body is not valid JSON");
+  }
+};
+
+/** The board id in a `/api/boards/:id` path segment. */
+const decodeBoardId = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, "Invalid board id");
+  }
+};
+
+const parsePushRequest = (body: unknown): PushRequest => {
+  if (
+    !isRecord(body) ||
+    typeof body.name !== "string" ||
+    (body.baseRevision !== null && typeof body.baseRevision !== "number")
+  ) {
+    throw new HttpError(400, "Expected name, baseRevision and board");
+  }
+  return body as unknown as PushRequest;
+};
+
+/**
+ * The sync API over HTTP, for the app's sync client:
+ *
+ * - `GET /api/boards` lists the boards without their content
+ * - `GET /api/boards/:id` returns one board and its revision
+ * - `PUT /api/boards/:id` stores the next revision; 409 with the current
+ *   board when `baseRevision` is stale
+ * - `/api/live` is a WebSocket that announces every accepted push to the
+ *   clients subscribed to that board
+ */
+export const createSyncServer = ({ store, token }: SyncServerOptions) => {
+  const isAuthorized = (req: IncomingMessage) => {
+    if (!token) return true;
+    const url = new URL(req.url ?? "/", "http://localhost");
+    return (
+      req.headers.authorization === `Bearer ${token}` ||
+      url.searchParams.get("token") === token
+    );
+  };
+
+  const subscriptions = new Map<WebSocket, Set<string>>();
+  const live = new WebSocketServer({ noServer: true });
+  live.on("connection", (socket) => {
+    subscriptions.set(socket, new Set());
+    socket.on("message", (data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === "subscribe" && Array.isArray(message.boardIds)) {
+          subscriptions.set(socket, new Set(message.boardIds));
+        }
+      } catch {
+        // Ignore anything that isn't a request
+      }
+    });
+    socket.on("close", () => subscriptions.delete(socket));
+  });
+
+  const announce = (message: LiveMessage) => {
+    const data = JSON.stringify(message);
+    subscriptions.forEach((boardIds, socket) => {
+      if (
+        boardIds.has(message.board.id) &&
+        socket.readyState === WebSocket.OPEN
+      ) {
+        socket.send(data);
+      }
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (!isAuthorized(req)) throw new HttpError(401, "Wrong or missing token");
+
+    if (pathname === "/api/boards" && req.method === "GET") {
+      sendJson(res, 200, { boards: store.list() });
+      return;
+    }
+
+    const match = BOARD_PATH.exec(pathname);
+    const id = match && decodeBoardId(match[1]);
+    if (!id) throw new HttpError(404, "Not found");
+    if (!isValidBoardId(id)) throw new HttpError(400, "Invalid board id");
+
+    if (req.method === "GET") {
+      const remote = store.get(id);
+      if (!remote) throw new HttpError(404, "No board with that id");
+      sendJson(res, 200, remote);
+    } else if (req.method === "PUT") {
+      const result = await store.push(
+        id,
+        parsePushRequest(await readJson(req))
+      );
+      if (result.ok) {
+        sendJson(res, 200, result.remote);
+        announce({ type: "updated", board: summarize(result.remote) });
+      } else if (result.reason === "conflict") {
+        sendJson(res, 409, {
+          error: "The board changed since your last sync",
+          current: result.current,
+        });
+      } else {
+        throw new HttpError(400, "Invalid board", result.issues);
+      }
+    } else {
+      throw new HttpError(405, "Method not allowed");
+    }
+  };
+
+  const server = createServer((req, res) => {
+    // The app is usually served from another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Authorization"
+    );
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, {
+          error: error.message,
+          details: error.details,
+        });
+      } else {
+        console.error(error);
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== "/api/live" || !isAuthorized(req)) {
+      socket.destroy();
+      return;
+    }
+    live.handleUpgrade(req, socket, head, (ws) =>
+      live.emit("connection", ws, req)
+    );
+  });
+  server.on("close", () =>
+    live.clients.forEach((client) => client.terminate())
+  );
+
+  return server;
+};
@@ -0,0 +1,30 @@
+/**
+ * Self-hosted sync server for sharing boards across devices:
+ *
+ *   pnpm sync-server
+ *
+ * Configured through the environment: PORT (8787), HOST (127.0.0.1; use
+ * 0.0.0.0 to reach it from other devices), SYNC_DATA_DIR (./sync-data) and
+ * SYNC_TOKEN, which every client then has to send. Turn sync on in the app's
+ * settings with the server's address.
+ */
+import path from "node:path";
+import { createSyncServer } from "./app";
+import { createBoardStore } from "./store";
+
+const port = Number(process.env.PORT ?? 8787);
+const host = process.env.HOST ?? "127.0.0.1";
+const dataDir = path.resolve(process.env.SYNC_DATA_DIR ?? "sync-data");
+
+const store = await createBoardStore(dataDir);
+const server = createSyncServer({ store, token: process.env.SYNC_TOKEN });
+
+server.listen(port, host, () => {
+  console.log(
+    `Sync server on http://${host}:${port}, storing boards in ${dataDir}`
+  );
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
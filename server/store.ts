@@ -0,0 +1,89 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseBoardData, type SchemaIssue } from "../src/lib/schema";
+import type {
+  PushRequest,
+  RemoteBoard,
+  RemoteBoardSummary,
+} from "../src/lib/sync";
+
+export type PushResult =
+  | { ok: true; remote: RemoteBoard }
+  | { ok: false; reason: "conflict"; current: RemoteBoard }
+  | { ok: false; reason: "invalid"; issues: SchemaIssue[] };
+
+/** Board ids the server accepts, which also keeps them safe as file names. */
+export const isValidBoardId = (id: string) => /^[\w-]{1,100}$/.test(id);
+
+export const summarize = ({
+  id,
+  name,
+  revision,
+  updatedAt,
+}: RemoteBoard): RemoteBoardSummary => ({ id, name, revision, updatedAt });
+
+/**
+ * Boards kept in memory and written to one JSON file each in `dataDir`.
+ * A push only goes through when it was based on the current revision, so
+ * two devices can never overwrite each other's changes unseen.
+ */
+export const createBoardStore = async (dataDir: string) => {
+  await mkdir(dataDir, { recursive: true });
+  const boards = new Map<string, RemoteBoard>();
+  for (const file of await readdir(dataDir)) {
+    if (!file.endsWith(".json")) continue;
+    const record: RemoteBoard = JSON.parse(
+      await readFile(path.join(dataDir, file), "utf8")
+    );
+    boards.set(record.id, record);
+  }
+
+  // Writes go one at a time so an older revision never lands last
+  let writing: Promise<unknown> = Promise.resolve();
+  const write = (record: RemoteBoard) => {
+    const file = path.join(dataDir, `${record.id}.json`);
+    const written = writing.then(async () => {
+      await writeFile(`${file}.tmp`, JSON.stringify(record));
+      await rename(`${file}.tmp`, file);
+    });
+    writing = written.catch(() => undefined);
+    return written;
+  };
+
+  return {
+    list: (): RemoteBoardSummary[] => [...boards.values()].map(summarize),
+
+    get: (id: string): RemoteBoard | undefined => boards.get(id),
+
+    push: async (id: string, push: PushRequest): Promise<PushResult> => {
+      const current = boards.get(id);
+      if ((current?.revision ?? null) !== push.baseRevision) {
+        return current
+          ? { ok: false, reason: "conflict", current }
+          : {
+              ok: false,
+              reason: "invalid",
+              issues: [
+                { path: "baseRevision", message: "the board does not exist" },
+              ],
+            };
+      }
+      const parsed = parseBoardData(push.board);
+      if (!parsed.ok) {
+        return { ok: false, reason: "invalid", issues: parsed.errors };
+      }
+      const remote: RemoteBoard = {
+        id,
+        name: push.name,
+        revision: (current?.revision ?? 0) + 1,
+        updatedAt: new Date().toISOString(),
+        board: parsed.data,
+      };
+      boards.set(id, remote);
+      await write(remote);
+      return { ok: true, remote };
+    },
+  };
+};
+
+export type BoardStore = Awaited<ReturnType<typeof createBoardStore>>;
@@ -1,181 +1,414 @@
 import {
+  BarChart3,
+  BookmarkPlus,
   Check,
   Copy,
   Download,
+  FileText,
+  History,
+  Keyboard,
+  LayoutTemplate,
+  Maximize2,
   Minus,
   Plus,
+  Redo2,
+  Search,
+  Settings,
   Trash2,
+  Undo2,
   Upload,
   X,
 } from "lucide-react";
-import React, { useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import HighlightedText from "./components/HighlightedText";
+import BoardImportDialog from "./components/BoardImportDialog";
+import BatchActionBar from "./components/BatchActionBar";
+import BoardSwitcher from "./components/BoardSwitcher";
+import CommandBar, { type Command } from "./components/CommandBar";
+import ExportDialog from "./components/ExportDialog";
+import HistoryView from "./components/HistoryView";
+import MarkdownImportDialog from "./components/MarkdownImportDialog";
+import SaveIndicator from "./components/SaveIndicator";
+import SchemaErrors from "./components/SchemaErrors";
+import SettingsPanel from "./components/SettingsPanel";
+import SnoozeBanner from "./components/SnoozeBanner";
+import StatsView from "./components/StatsView";
+import SyncConflicts from "./components/SyncConflicts";
+import SyncIndicator from "./components/SyncIndicator";
+import TaskBadges from "./components/TaskBadges";
+import TaskDetails from "./components/TaskDetails";
+import TemplatesDialog from "./components/TemplatesDialog";
+import Toast, { type ToastMessage } from "./components/Toast";
+import UpdatePrompt from "./components/UpdatePrompt";
+import WipLimitEditor from "./components/WipLimitEditor";
+import { useBoardKeyboard } from "./hooks/useBoardKeyboard";
+import { useBoards, type BoardsApi } from "./hooks/useBoards";
+import { useBoardStore } from "./hooks/useBoardStore";
+import { useServiceWorker } from "./hooks/useServiceWorker";
+import { useSyncSettings, type SyncSettingsApi } from "./hooks/useSyncSettings";
+import { useTaskSelection } from "./hooks/useTaskSelection";
+import { useTemplates } from "./hooks/useTemplates";
+import {
+  cardCount,
+  checkWipLimit,
+  openTaskCount,
+  selectAllTasks,
+  selectColumn,
+  selectCurrentSection,
+  selectSection,
+  selectTask,
+  snoozeLocation,
+  SNOOZE_TARGETS,
+  type BoardAction,
+  type SnoozeTarget,
+  type TaskLocation,
+} from "./lib/board";
+import {
+  boardNameFromFile,
+  createBundle,
+  isBoardBundle,
+  parseBoardBundle,
+} from "./lib/boards";
+import { formatDueDate } from "./lib/dates";
+import type { ExportFile } from "./lib/export";
+import { createId, dedupeIds } from "./lib/ids";
+import { LABEL_CLASSES } from "./lib/labels";
+import {
+  readTaskInput,
+  sectionToMarkdown,
+  taskToMarkdown,
+} from "./lib/markdown";
+import type { QuickAdd } from "./lib/quickAdd";
+import { isEmptyQuery, parseSearchQuery, searchBoard } from "./lib/search";
+import { firstFocus, type BoardFocus } from "./lib/navigation";
+import { parseBoardData, SchemaError, type SchemaIssue } from "./lib/schema";
+import type { RemoteBoardSummary } from "./lib/sync";
+import {
+  fetchRemoteBoard,
+  fetchRemoteBoards,
+  saveSyncState,
+} from "./lib/syncClient";
+import {
+  boardFromTemplate,
+  instantiateSection,
+  resetToTemplate,
+  type Template,
+} from "./lib/templates";
+import type { BoardData, Column, Section, Task } from "./types";
 
-interface Task {
-  id: string;
-  title: string;
-  completed: boolean;
-}
+type DragItem =
+  | { kind: "task"; taskId: string; from: TaskLocation }
+  | { kind: "column"; columnId: string; sectionId: string }
+  | { kind: "section"; sectionId: string };
 
-interface Column {
-  id: string;
-  title: string;
-  tasks: Task[];
-}
+type DropTarget =
+  | { kind: "task"; sectionId: string; columnId: string; index: number }
+  | { kind: "column"; sectionId: string; index: number }
+  | { kind: "section"; index: number };
 
-interface Section {
-  id: string;
-  title: string;
-  columns: Column[];
-}
+const KEYBOARD_HELP = [
+  "Keyboard shortcuts",
+  "Arrows / h j k l: move between cards",
+  "Shift + ← →: move card to previous/next column",
+  "Shift + ↑ ↓: move card to previous/next section",
+  "Alt + ↑ ↓: reorder card in its column",
+  "x: toggle done · e / Enter: edit · o: details · n: new card · Delete: remove",
+  "/: search · Ctrl/Cmd + Z: undo · Shift + Ctrl/Cmd + Z: redo",
+  "Ctrl/Cmd + K: add cards, find cards and run commands",
+].join("\n");
 
-const useLocalStorage = <T,>(key: string, initialValue: T) => {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
+const isPastMidpoint = (e: React.DragEvent, axis: "x" | "y") => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return axis === "x"
+    ? e.clientX > rect.left + rect.width / 2
+    : e.clientY > rect.top + rect.height / 2;
+};
 
-  const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore =
-        value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
+const DropIndicator: React.FC<{ vertical?: boolean }> = ({ vertical }) => (
+  <div
+    className={
+      vertical
+        ? "w-1 self-stretch shrink-0 bg-blue-500"
+        : "h-1 rounded bg-blue-500"
     }
-  };
+  />
+);
 
-  return [storedValue, setValue] as const;
-};
+/** "Side projects" as "side-projects", for file names. */
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "board";
 
-const TrelloBoard: React.FC = () => {
-  const [sections, setSections] = useLocalStorage<Section[]>(
-    "trello-sections",
-    [
-      {
-        id: "finished",
-        title: "✅ Finished",
-        columns: [
-          { id: "mon", title: "Mon", tasks: [] },
-          { id: "tue", title: "Tue", tasks: [] },
-          { id: "wed", title: "Wed", tasks: [] },
-          { id: "thu", title: "Thu", tasks: [] },
-          { id: "fri", title: "Fri", tasks: [] },
-          { id: "weekend", title: "Sat+Sun", tasks: [] },
-        ],
-      },
-      {
-        id: "current",
-        title: "🔥 Current",
-        columns: [
-          { id: "quickie", title: "Quickie", tasks: [] },
-          { id: "errand", title: "Errand", tasks: [] },
-          { id: "chore", title: "Chore", tasks: [] },
-          { id: "project", title: "Project", tasks: [] },
-        ],
-      },
-      {
-        id: "backlog",
-        title: "📋 Backlog",
-        columns: [
-          { id: "backlog-quickie", title: "Quickie", tasks: [] },
-          { id: "backlog-errand", title: "Errand", tasks: [] },
-          { id: "backlog-chore", title: "Chore", tasks: [] },
-          { id: "backlog-project", title: "Project", tasks: [] },
-        ],
-      },
-      {
-        id: "icebox",
-        title: "🧊 Icebox",
-        columns: [
-          { id: "icebox-quickie", title: "Quickie", tasks: [] },
-          { id: "icebox-errand", title: "Errand", tasks: [] },
-          { id: "icebox-chore", title: "Chore", tasks: [] },
-          { id: "icebox-project", title: "Project", tasks: [] },
-        ],
-      },
-    ]
-  );
+interface TrelloBoardProps {
+  boardId: string;
+  boards: BoardsApi;
+  sync: SyncSettingsApi;
+}
 
-  const [draggedTask, setDraggedTask] = useState<{
-    task: Task;
-    fromSection: string;
-    fromColumn: string;
-  } | null>(null);
+const TrelloBoard: React.FC<TrelloBoardProps> = ({ boardId, boards, sync }) => {
+  const boardName =
+    boards.boards.find((summary) => summary.id === boardId)?.name ?? "Board";
+  const {
+    board,
+    storageKey,
+    dispatch,
+    loaded,
+    loadError,
+    saveStatus,
+    saveError,
+    save,
+    storageName,
+    syncStatus,
+    syncError,
+    lastSyncedAt,
+    syncNow,
+    supportsSnapshots,
+    listSnapshots,
+    restoreSnapshot,
+    conflicts,
+    dismissConflict,
+    woken,
+    dismissWoken,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useBoardStore(boardId, { name: boardName, server: sync.server });
+  const { sections, archive } = board;
+
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
   const [editingSection, setEditingSection] = useState<string | null>(null);
   const [editingColumn, setEditingColumn] = useState<string | null>(null);
   const [editingTask, setEditingTask] = useState<string | null>(null);
+  const [addingColumn, setAddingColumn] = useState<string | null>(null);
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showCommandBar, setShowCommandBar] = useState(false);
+  const { templates, saveTemplate, deleteTemplate } = useTemplates();
+  const [boardImport, setBoardImport] = useState<{
+    fileName: string;
+    board: BoardData;
+  } | null>(null);
+  const [markdownImport, setMarkdownImport] = useState<{
+    source: string;
+  } | null>(null);
+  const [openTask, setOpenTask] = useState<
+    (TaskLocation & { taskId: string }) | null
+  >(null);
+  const [dataErrors, setDataErrors] = useState<{
+    title: string;
+    issues: SchemaIssue[];
+  } | null>(null);
+  const [shownLoadError, setShownLoadError] = useState<unknown>(null);
+  // The board loads asynchronously, so its error shows up after mount
+  if (loadError !== shownLoadError) {
+    setShownLoadError(loadError);
+    if (loadError) {
+      setDataErrors({
+        title: `Your saved board could not be read. A backup was kept under ${storageKey}-backup.`,
+        issues:
+          loadError instanceof SchemaError
+            ? loadError.issues
+            : [{ path: "(storage)", message: String(loadError) }],
+      });
+    }
+  }
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const [searchInput, setSearchInput] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const boardFileInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
-  const addSection = () => {
-    const newSection: Section = {
-      id: Date.now().toString(),
-      title: "New Section",
-      columns: [{ id: `col-${Date.now()}`, title: "New Column", tasks: [] }],
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const showUndoToast = (message: string) =>
+    setToast({ id: Date.now(), message, actionLabel: "Undo" });
+
+  const undoLastChange = () => {
+    const label = undo();
+    if (label) setToast({ id: Date.now(), message: `Undid: ${label}` });
+  };
+
+  /** Shows why cards can't go into `to`; true when the WIP limit blocks them. */
+  const blockedByWipLimit = (to: TaskLocation, moving?: Task[]) => {
+    const message = checkWipLimit(board, to, moving);
+    if (message) setToast({ id: Date.now(), message });
+    return message !== null;
+  };
+
+  const redoLastChange = () => {
+    const label = redo();
+    if (label) setToast({ id: Date.now(), message: `Redid: ${label}` });
+  };
+
+  /** Dispatches a destructive action and offers to undo it. */
+  const dispatchWithUndo = (action: BoardAction, message: string) => {
+    dispatch(action);
+    showUndoToast(message);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && selection.selected.length > 0) {
+        selection.clear();
+        return;
+      }
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      if (e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setShowCommandBar(true);
+        return;
+      }
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable]")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoLastChange();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redoLastChange();
+      }
     };
-    setSections([...sections, newSection]);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const query = parseSearchQuery(searchInput);
+  const search = isEmptyQuery(query) ? null : searchBoard(sections, query);
+  const isVisible = (taskId: string) =>
+    !search || search.highlights.has(taskId);
+  const hasVisibleTasks = (column: Column) =>
+    column.tasks.some((task) => isVisible(task.id));
+
+  const allTasks = selectAllTasks(sections);
+  const selection = useTaskSelection(
+    allTasks.map(({ task }) => task.id).filter(isVisible)
+  );
+  /** Selected cards in board order, with where they are. */
+  const selectedTasks = allTasks.filter(({ task }) =>
+    selection.isSelected(task.id)
+  );
+
+  /** Maps an index among the visible cards of a column to the full column. */
+  const toBoardIndex = (to: TaskLocation, visibleIndex?: number) => {
+    if (!search || visibleIndex === undefined) return visibleIndex;
+    const visible = selectColumn(search.sections, to)?.tasks ?? [];
+    const all = selectColumn(sections, to)?.tasks ?? [];
+    const anchor = visible[visibleIndex] ?? visible[visible.length - 1];
+    if (!anchor) return all.length;
+    const index = all.findIndex((task) => task.id === anchor.id);
+    return visible[visibleIndex] ? index : index + 1;
+  };
+
+  const dialogOpen =
+    showHistory ||
+    showSettings ||
+    showExport ||
+    showStats ||
+    showTemplates ||
+    showCommandBar ||
+    !!markdownImport ||
+    !!boardImport ||
+    !!openTask;
+  const { focus, setFocus } = useBoardKeyboard(
+    search?.sections ?? sections,
+    {
+      toggleTask: ({ sectionId, columnId, taskId }) =>
+        toggleTaskCompletion(sectionId, columnId, taskId),
+      editTask: ({ taskId }) => setEditingTask(taskId),
+      openTask: ({ sectionId, columnId, taskId }) =>
+        setOpenTask({ sectionId, columnId, taskId }),
+      deleteTask: ({ sectionId, columnId, taskId }) =>
+        deleteTask(sectionId, columnId, taskId),
+      moveTask: (from, to, index) => {
+        const task = selectTask(sections, from, from.taskId);
+        if (task && blockedByWipLimit(to, [task])) return;
+        dispatch({
+          type: "moveTask",
+          taskId: from.taskId,
+          from,
+          to,
+          index: toBoardIndex(to, index),
+          at: new Date().toISOString(),
+          nextId: createId("task"),
+        });
+      },
+      newTask: ({ columnId }) => setAddingColumn(columnId),
+      focusSearch: () => searchInputRef.current?.focus(),
+    },
+    !dialogOpen
+  );
+
+  const isFocused = (
+    sectionId: string,
+    columnId: string,
+    taskId: string | null,
+    target: BoardFocus | null = focus
+  ) =>
+    target?.sectionId === sectionId &&
+    target.columnId === columnId &&
+    target.taskId === taskId;
+
+  // Roving tabindex: only the cursor (or the first card) is reachable by Tab
+  const tabStop = focus ?? firstFocus(search?.sections ?? sections);
+
+  const addSection = () => {
+    dispatch({
+      type: "addSection",
+      section: {
+        id: createId("section"),
+        title: "New Section",
+        columns: [{ id: createId("col"), title: "New Column", tasks: [] }],
+      },
+    });
+  };
+
+  const saveSectionAsTemplate = (section: Section) => {
+    saveTemplate(section.title, "section", [section]);
+    setToast({
+      id: Date.now(),
+      message: `Saved “${section.title}” as a section template`,
+    });
   };
 
   const deleteSection = (sectionId: string) => {
-    setSections(sections.filter((section) => section.id !== sectionId));
+    dispatchWithUndo({ type: "deleteSection", sectionId }, "Section deleted");
   };
 
   const clearCompletedTasks = (sectionId: string) => {
-    setSections(
-      sections.map((section) =>
-        section.id === sectionId
-          ? {
-              ...section,
-              columns: section.columns.map((col) => ({
-                ...col,
-                tasks: col.tasks.filter((task) => !task.completed),
-              })),
-            }
-          : section
-      )
+    dispatchWithUndo(
+      { type: "clearCompleted", sectionId },
+      "Completed tasks cleared"
     );
   };
 
   const editSectionTitle = (sectionId: string, newTitle: string) => {
     if (newTitle.trim()) {
-      setSections(
-        sections.map((section) =>
-          section.id === sectionId ? { ...section, title: newTitle } : section
-        )
-      );
+      dispatch({ type: "renameSection", sectionId, title: newTitle });
     }
     setEditingSection(null);
   };
 
   const addColumn = (sectionId: string) => {
-    const newColumn: Column = {
-      id: `col-${Date.now()}`,
-      title: "New Column",
-      tasks: [],
-    };
-    setSections(
-      sections.map((section) =>
-        section.id === sectionId
-          ? { ...section, columns: [...section.columns, newColumn] }
-          : section
-      )
-    );
+    dispatch({
+      type: "addColumn",
+      sectionId,
+      column: { id: createId("col"), title: "New Column", tasks: [] },
+    });
   };
 
   const removeColumn = (sectionId: string) => {
-    setSections(
-      sections.map((section) =>
-        section.id === sectionId && section.columns.length > 1
-          ? { ...section, columns: section.columns.slice(0, -1) }
-          : section
-      )
-    );
+    dispatchWithUndo({ type: "removeLastColumn", sectionId }, "Column removed");
   };
 
   const editColumnTitle = (
@@ -184,63 +417,68 @@ const TrelloBoard: React.FC = () => {
     newTitle: string
   ) => {
     if (newTitle.trim()) {
-      setSections(
-        sections.map((section) =>
-          section.id === sectionId
-            ? {
-                ...section,
-                columns: section.columns.map((col) =>
-                  col.id === columnId ? { ...col, title: newTitle } : col
-                ),
-              }
-            : section
-        )
-      );
+      dispatch({ type: "renameColumn", sectionId, columnId, title: newTitle });
     }
     setEditingColumn(null);
   };
 
   const addTask = (sectionId: string, columnId: string, taskTitle: string) => {
-    if (taskTitle.trim()) {
-      const newTask: Task = {
-        id: `task-${Date.now()}`,
-        title: taskTitle,
-        completed: false,
-      };
-      setSections(
-        sections.map((section) =>
-          section.id === sectionId
-            ? {
-                ...section,
-                columns: section.columns.map((col) =>
-                  col.id === columnId
-                    ? { ...col, tasks: [...col.tasks, newTask] }
-                    : col
-                ),
-              }
-            : section
-        )
-      );
+    if (taskTitle.trim() && !blockedByWipLimit({ sectionId, columnId })) {
+      dispatch({
+        type: "addTask",
+        sectionId,
+        columnId,
+        task: {
+          id: createId("task"),
+          title: taskTitle,
+          completed: false,
+          createdAt: new Date().toISOString(),
+        },
+      });
     }
   };
 
+  /** Adds pasted lines as cards, in order, as one undoable change. */
+  const addTasks = (
+    location: TaskLocation,
+    lines: { title: string; completed: boolean }[]
+  ) => {
+    const createdAt = new Date().toISOString();
+    const tasks = lines.map(({ title }) => ({
+      id: createId("task"),
+      title,
+      completed: false,
+      createdAt,
+    }));
+    const open = tasks.filter((_, i) => !lines[i].completed);
+    if (open.length > 0 && blockedByWipLimit(location, open)) return;
+    dispatch({
+      type: "batch",
+      actions: [
+        ...tasks.map((task): BoardAction => ({
+          type: "addTask",
+          ...location,
+          task,
+        })),
+        // Checking them off records when and where they were completed
+        ...tasks
+          .filter((_, i) => lines[i].completed)
+          .map((task): BoardAction => ({
+            type: "toggleTask",
+            ...location,
+            taskId: task.id,
+            at: createdAt,
+            nextId: createId("task"),
+          })),
+      ],
+      label: `${cardCount(tasks.length)} added`,
+    });
+  };
+
   const deleteTask = (sectionId: string, columnId: string, taskId: string) => {
-    setSections(
-      sections.map((section) =>
-        section.id === sectionId
-          ? {
-              ...section,
-              columns: section.columns.map((col) =>
-                col.id === columnId
-                  ? {
-                      ...col,
-                      tasks: col.tasks.filter((task) => task.id !== taskId),
-                    }
-                  : col
-              ),
-            }
-          : section
-      )
+    dispatchWithUndo(
+      { type: "deleteTask", sectionId, columnId, taskId },
+      "Card deleted"
     );
   };
 
@@ -249,27 +487,14 @@ const TrelloBoard: React.FC = () => {
     columnId: string,
     taskId: string
   ) => {
-    setSections(
-      sections.map((section) =>
-        section.id === sectionId
-          ? {
-              ...section,
-              columns: section.columns.map((col) =>
-                col.id === columnId
-                  ? {
-                      ...col,
-                      tasks: col.tasks.map((task) =>
-                        task.id === taskId
-                          ? { ...task, completed: !task.completed }
-                          : task
-                      ),
-                    }
-                  : col
-              ),
-            }
-          : section
-      )
-    );
+    dispatch({
+      type: "toggleTask",
+      sectionId,
+      columnId,
+      taskId,
+      at: new Date().toISOString(),
+      nextId: createId("task"),
+    });
   };
 
   const editTaskTitle = (
@@ -279,97 +504,156 @@ const TrelloBoard: React.FC = () => {
     newTitle: string
   ) => {
     if (newTitle.trim()) {
-      setSections(
-        sections.map((section) =>
-          section.id === sectionId
-            ? {
-                ...section,
-                columns: section.columns.map((col) =>
-                  col.id === columnId
-                    ? {
-                        ...col,
-                        tasks: col.tasks.map((task) =>
-                          task.id === taskId
-                            ? { ...task, title: newTitle }
-                            : task
-                        ),
-                      }
-                    : col
-                ),
-              }
-            : section
-        )
-      );
+      dispatch({
+        type: "renameTask",
+        sectionId,
+        columnId,
+        taskId,
+        title: newTitle,
+      });
     }
     setEditingTask(null);
   };
 
-  const handleDragStart = (
-    task: Task,
-    fromSection: string,
-    fromColumn: string
-  ) => {
-    setDraggedTask({ task, fromSection, fromColumn });
+  const handleDragStart = (e: React.DragEvent, item: DragItem) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    // Firefox only starts a drag when some data is set
+    e.dataTransfer.setData("text/plain", "");
+    setDragItem(item);
+  };
+
+  const handleDragEnd = () => {
+    setDragItem(null);
+    setDropTarget(null);
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const showDropTarget = (e: React.DragEvent, target: DropTarget) => {
     e.preventDefault();
+    e.stopPropagation();
+    if (JSON.stringify(target) !== JSON.stringify(dropTarget)) {
+      setDropTarget(target);
+    }
   };
 
-  const handleDrop = (
-    e: React.DragEvent,
-    toSectionId: string,
-    toColumnId: string
-  ) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (draggedTask) {
-      // Remove task from source
-      const updatedSections = sections.map((section) =>
-        section.id === draggedTask.fromSection
-          ? {
-              ...section,
-              columns: section.columns.map((col) =>
-                col.id === draggedTask.fromColumn
-                  ? {
-                      ...col,
-                      tasks: col.tasks.filter(
-                        (task) => task.id !== draggedTask.task.id
-                      ),
-                    }
-                  : col
-              ),
-            }
-          : section
-      );
+    if (dragItem?.kind === "task" && dropTarget?.kind === "task") {
+      const to = {
+        sectionId: dropTarget.sectionId,
+        columnId: dropTarget.columnId,
+      };
+      // Dragging one of several selected cards takes all of them along
+      const moving =
+        selection.isSelected(dragItem.taskId) && selectedTasks.length > 1
+          ? selectedTasks
+          : allTasks.filter(({ task }) => task.id === dragItem.taskId);
+      if (
+        !blockedByWipLimit(
+          to,
+          moving.map(({ task }) => task)
+        )
+      ) {
+        dispatch(
+          moving.length > 1
+            ? {
+                type: "moveTasks",
+                tasks: moving.map(({ task, location }) => ({
+                  taskId: task.id,
+                  from: location,
+                  nextId: createId("task"),
+                })),
+                to,
+                index: dropTarget.index,
+                at: new Date().toISOString(),
+              }
+            : {
+                type: "moveTask",
+                taskId: dragItem.taskId,
+                from: dragItem.from,
+                to,
+                index: dropTarget.index,
+                at: new Date().toISOString(),
+                nextId: createId("task"),
+              }
+        );
+      }
+    } else if (dragItem?.kind === "column" && dropTarget?.kind === "column") {
+      dispatch({
+        type: "moveColumn",
+        columnId: dragItem.columnId,
+        fromSectionId: dragItem.sectionId,
+        toSectionId: dropTarget.sectionId,
+        index: dropTarget.index,
+      });
+    } else if (dragItem?.kind === "section" && dropTarget?.kind === "section") {
+      dispatch({
+        type: "moveSection",
+        sectionId: dragItem.sectionId,
+        index: dropTarget.index,
+      });
+    }
+    handleDragEnd();
+  };
 
-      // Add task to target
-      const finalSections = updatedSections.map((section) =>
-        section.id === toSectionId
-          ? {
-              ...section,
-              columns: section.columns.map((col) =>
-                col.id === toColumnId
-                  ? { ...col, tasks: [...col.tasks, draggedTask.task] }
-                  : col
-              ),
-            }
-          : section
-      );
+  const isOverWipLimit = (column: Column) =>
+    column.wipLimit !== undefined && openTaskCount(column) > column.wipLimit;
 
-      setSections(finalSections);
-      setDraggedTask(null);
-    }
+  const isDropTarget = (target: DropTarget) =>
+    JSON.stringify(target) === JSON.stringify(dropTarget);
+
+  const updateTaskDetails = (
+    { sectionId, columnId, taskId }: TaskLocation & { taskId: string },
+    changes: Partial<Omit<Task, "id">>
+  ) => {
+    dispatch({ type: "updateTask", sectionId, columnId, taskId, changes });
+  };
+
+  const snoozeTask = (
+    { sectionId, columnId, taskId }: TaskLocation & { taskId: string },
+    target: SnoozeTarget,
+    until: string
+  ) => {
+    const from = { sectionId, columnId };
+    const to = snoozeLocation(sections, from, target);
+    const task = selectTask(sections, from, taskId);
+    if (!to || !task || blockedByWipLimit(to, [task])) return;
+    dispatchWithUndo(
+      {
+        type: "snoozeTask",
+        taskId,
+        from,
+        target,
+        until,
+        at: new Date().toISOString(),
+      },
+      `Snoozed until ${formatDueDate(until)}`
+    );
+    setOpenTask({ ...to, taskId });
+  };
+
+  const restoreArchivedTask = (
+    week: string,
+    task: Task,
+    sectionId: string,
+    columnId: string
+  ) => {
+    dispatch({
+      type: "restoreArchivedTask",
+      week,
+      task,
+      to: { sectionId, columnId },
+    });
   };
 
-  const exportData = () => {
-    const dataStr = JSON.stringify(sections, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
+  const exportData = (file: ExportFile, name = slugify(boardName)) => {
+    const dataBlob = new Blob([file.content], { type: file.mimeType });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `focustask-export-${
+    link.download = `focustask-${name}-${
       new Date().toISOString().split("T")[0]
-    }.json`;
+    }.${file.extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -382,17 +666,44 @@ const TrelloBoard: React.FC = () => {
 
     const reader = new FileReader();
     reader.onload = (e) => {
+      if (/\.(md|markdown|txt)$/i.test(file.name)) {
+        setMarkdownImport({ source: e.target?.result as string });
+        return;
+      }
+
+      let importedData: unknown;
       try {
-        const importedData = JSON.parse(e.target?.result as string);
-        if (Array.isArray(importedData)) {
-          setSections(importedData);
-        } else {
-          alert(
-            "Invalid JSON format. Please select a valid FocusTask export file."
-          );
-        }
+        importedData = JSON.parse(e.target?.result as string);
       } catch {
-        alert("Error reading file. Please select a valid JSON file.");
+        setDataErrors({
+          title: `Could not import ${file.name}`,
+          issues: [{ path: "(file)", message: "not a valid JSON file" }],
+        });
+        return;
+      }
+
+      if (isBoardBundle(importedData)) {
+        void importBoards(file.name, importedData);
+        return;
+      }
+
+      const result = parseBoardData(importedData);
+      if (result.ok) {
+        // Legacy exports carry no archive, so keep the one we have
+        setBoardImport({
+          fileName: file.name,
+          board: dedupeIds(
+            result.migratedFrom === 1
+              ? { ...result.data, archive }
+              : result.data
+          ).board,
+        });
+        setDataErrors(null);
+      } else {
+        setDataErrors({
+          title: `Could not import ${file.name}`,
+          issues: result.errors,
+        });
       }
     };
     reader.readAsText(file);
@@ -402,21 +713,268 @@ const TrelloBoard: React.FC = () => {
     }
   };
 
-  const triggerImport = () => {
-    fileInputRef.current?.click();
+  const createBoard = async (name: string, data?: BoardData, id?: string) => {
+    const created = await boards.createBoard(name, data, id);
+    boards.switchBoard(created.id);
   };
 
-  const copySectionAsMarkdown = async (section: Section) => {
-    const markdownLines: string[] = [];
+  /** Pulls a board from the sync server that this browser doesn't have. */
+  const addRemoteBoard = async (summary: RemoteBoardSummary) => {
+    if (!sync.server) return;
+    const remote = await fetchRemoteBoard(sync.server, summary.id);
+    if (!remote) throw new Error(`${summary.name} is gone from the server`);
+    await saveSyncState(remote.id, {
+      serverUrl: sync.server.serverUrl,
+      revision: remote.revision,
+      base: remote.board,
+    });
+    await createBoard(remote.name, remote.board, remote.id);
+  };
+
+  const deleteBoard = () => {
+    const next = boards.boards.find((summary) => summary.id !== boardId);
+    if (!next) return;
+    boards.switchBoard(next.id);
+    void boards.deleteBoard(boardId);
+  };
 
-    section.columns.forEach((column) => {
-      column.tasks.forEach((task) => {
-        const checkbox = task.completed ? "[x]" : "[ ]";
-        markdownLines.push(`- ${checkbox} ${column.title}: ${task.title}`);
+  const exportAllBoards = async () => {
+    try {
+      const all = await Promise.all(
+        boards.boards.map(async ({ id, name }) => ({
+          name,
+          board: id === boardId ? board : await boards.loadBoard(id),
+        }))
+      );
+      exportData(
+        {
+          content: JSON.stringify(createBundle(all), null, 2),
+          mimeType: "application/json",
+          extension: "json",
+        },
+        "all-boards"
+      );
+    } catch (error) {
+      setToast({
+        id: Date.now(),
+        message: `Could not read every board: ${error}`,
       });
+    }
+  };
+
+  /** Adds an all-boards export, or a single board export, as new boards. */
+  const importBoards = async (fileName: string, raw: unknown) => {
+    let imported: { name: string; board: BoardData }[];
+    if (isBoardBundle(raw)) {
+      const result = parseBoardBundle(raw);
+      if (!result.ok) {
+        setDataErrors({
+          title: `Could not import ${fileName}`,
+          issues: result.errors,
+        });
+        return;
+      }
+      imported = result.boards;
+    } else {
+      const result = parseBoardData(raw);
+      if (!result.ok) {
+        setDataErrors({
+          title: `Could not import ${fileName}`,
+          issues: result.errors,
+        });
+        return;
+      }
+      imported = [{ name: boardNameFromFile(fileName), board: result.data }];
+    }
+
+    setDataErrors(null);
+    let first: string | null = null;
+    for (const { name, board: data } of imported) {
+      const created = await boards.createBoard(name, dedupeIds(data).board);
+      first ??= created.id;
+    }
+    if (first) boards.switchBoard(first);
+  };
+
+  const importBoardFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        void importBoards(file.name, JSON.parse(e.target?.result as string));
+      } catch {
+        setDataErrors({
+          title: `Could not import ${file.name}`,
+          issues: [{ path: "(file)", message: "not a valid JSON file" }],
+        });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const resetBoard = (template: Template) => {
+    dispatchWithUndo(
+      {
+        type: "replaceBoard",
+        board: resetToTemplate(board, template),
+        label: `Board reset to ${template.name}`,
+      },
+      `Board reset to ${template.name}`
+    );
+    setShowTemplates(false);
+  };
+
+  const markSelectedDone = (done: boolean) => {
+    const changing = selectedTasks.filter(
+      ({ task }) => task.completed !== done
+    );
+    if (changing.length === 0) return;
+    const at = new Date().toISOString();
+    dispatch({
+      type: "batch",
+      actions: changing.map(({ task, location }) => ({
+        type: "toggleTask",
+        ...location,
+        taskId: task.id,
+        at,
+        nextId: createId("task"),
+      })),
+      label: `${cardCount(changing.length)} marked ${done ? "done" : "not done"}`,
     });
+  };
+
+  const deleteSelected = () => {
+    dispatchWithUndo(
+      {
+        type: "batch",
+        actions: selectedTasks.map(({ task, location }) => ({
+          type: "deleteTask",
+          ...location,
+          taskId: task.id,
+        })),
+        label: `${cardCount(selectedTasks.length)} deleted`,
+      },
+      `${cardCount(selectedTasks.length)} deleted`
+    );
+    selection.clear();
+  };
+
+  const moveSelected = (to: TaskLocation) => {
+    if (
+      blockedByWipLimit(
+        to,
+        selectedTasks.map(({ task }) => task)
+      )
+    )
+      return;
+    dispatch({
+      type: "moveTasks",
+      tasks: selectedTasks.map(({ task, location }) => ({
+        taskId: task.id,
+        from: location,
+        nextId: createId("task"),
+      })),
+      to,
+      at: new Date().toISOString(),
+    });
+  };
+
+  const copySelectedAsMarkdown = async () => {
+    const markdown = selectedTasks
+      .flatMap(({ task }) => taskToMarkdown(task))
+      .join("\n");
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setToast({
+        id: Date.now(),
+        message: `Copied ${cardCount(selectedTasks.length)} as Markdown`,
+      });
+    } catch (err) {
+      console.error("Failed to copy to clipboard:", err);
+    }
+  };
+
+  const quickAddTask = ({ title, location, changes }: QuickAdd) => {
+    if (!location || blockedByWipLimit(location)) return;
+    dispatch({
+      type: "addTask",
+      sectionId: location.sectionId,
+      columnId: location.columnId,
+      task: {
+        id: createId("task"),
+        title,
+        completed: false,
+        createdAt: new Date().toISOString(),
+        ...changes,
+      },
+    });
+    setToast({
+      id: Date.now(),
+      message: `Added to ${location.sectionTitle} › ${location.columnTitle}`,
+    });
+  };
+
+  const goToSection = (section: Section) => {
+    const column = section.columns[0];
+    if (column) {
+      setFocus({
+        sectionId: section.id,
+        columnId: column.id,
+        taskId: column.tasks[0]?.id ?? null,
+      });
+    }
+  };
+
+  // The installed app's shortcuts open /?action=…, handled once the board is in
+  const [shortcut, setShortcut] = useState(() =>
+    new URLSearchParams(window.location.search).get("action")
+  );
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has("action")) return;
+    url.searchParams.delete("action");
+    window.history.replaceState(null, "", url);
+  }, []);
+  if (loaded && shortcut) {
+    setShortcut(null);
+    const current = selectCurrentSection(sections);
+    if (current && shortcut === "open-current") goToSection(current);
+    if (current?.columns[0] && shortcut === "new-task") {
+      goToSection(current);
+      setAddingColumn(current.columns[0].id);
+    }
+  }
 
-    const markdown = markdownLines.join("\n");
+  const commands: Command[] = [
+    ...sections.map((section) => ({
+      id: `go-${section.id}`,
+      title: `Go to ${section.title}`,
+      run: () => goToSection(section),
+    })),
+    ...sections.map((section) => ({
+      id: `clear-${section.id}`,
+      title: `Clear completed in ${section.title}`,
+      run: () => clearCompletedTasks(section.id),
+    })),
+    { id: "add-section", title: "Add section", run: () => addSection() },
+    { id: "export", title: "Export…", run: () => setShowExport(true) },
+    { id: "import", title: "Import…", run: () => triggerImport() },
+    { id: "templates", title: "Templates", run: () => setShowTemplates(true) },
+    { id: "history", title: "Show history", run: () => setShowHistory(true) },
+    { id: "stats", title: "Show stats", run: () => setShowStats(true) },
+    { id: "settings", title: "Settings", run: () => setShowSettings(true) },
+    { id: "undo", title: "Undo", run: () => undoLastChange() },
+    { id: "redo", title: "Redo", run: () => redoLastChange() },
+  ];
+
+  const triggerImport = () => {
+    fileInputRef.current?.click();
+  };
+
+  const copySectionAsMarkdown = async (section: Section) => {
+    const markdown = sectionToMarkdown(section);
 
     try {
       await navigator.clipboard.writeText(markdown);
@@ -427,13 +985,122 @@ const TrelloBoard: React.FC = () => {
     }
   };
 
+  if (!loaded) {
+    return (
+      <div className="min-h-screen bg-blue-50 p-6 text-sm text-gray-500">
+        Loading board…
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen bg-blue-50 p-6">
+    <div
+      className="min-h-screen bg-blue-50 p-6"
+      onMouseDown={dialogOpen ? undefined : selection.startBand}
+    >
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold text-gray-800">FocusTask</h1>
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold text-gray-800">FocusTask</h1>
+          <BoardSwitcher
+            boards={boards.boards}
+            activeId={boardId}
+            onSwitch={boards.switchBoard}
+            onCreate={(name) => void createBoard(name)}
+            onRename={(name) => boards.renameBoard(boardId, name)}
+            onDuplicate={() => void createBoard(`${boardName} copy`, board)}
+            onDelete={deleteBoard}
+            onExportAll={() => void exportAllBoards()}
+            onImport={() => boardFileInputRef.current?.click()}
+          />
+          <SaveIndicator status={saveStatus} error={saveError} onRetry={save} />
+          <SyncIndicator
+            status={syncStatus}
+            error={syncError}
+            lastSyncedAt={lastSyncedAt}
+            onRetry={() => void syncNow()}
+          />
+          <div className="relative flex items-center">
+            <Search size={16} className="absolute left-2.5 text-gray-400" />
+            <input
+              ref={searchInputRef}
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                  setSearchInput("");
+                  e.currentTarget.blur();
+                }
+              }}
+              placeholder="Search… is:open section:backlog column:errand"
+              aria-label="Search cards"
+              className="w-96 pl-8 pr-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            {search && (
+              <span className="ml-2 text-sm text-gray-500 whitespace-nowrap">
+                {search.matchCount}{" "}
+                {search.matchCount === 1 ? "match" : "matches"}
+              </span>
+            )}
+          </div>
+        </div>
         <div className="flex items-center gap-2">
+          <span
+            className="text-gray-400 p-2.5"
+            title={KEYBOARD_HELP}
+            aria-label={KEYBOARD_HELP}
+          >
+            <Keyboard size={16} />
+          </span>
           <button
-            onClick={exportData}
+            onClick={undoLastChange}
+            disabled={!canUndo}
+            className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed text-gray-600 disabled:text-gray-400 p-2.5 rounded-lg transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={redoLastChange}
+            disabled={!canRedo}
+            className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed text-gray-600 disabled:text-gray-400 p-2.5 rounded-lg transition-colors"
+            title="Redo (Shift+Ctrl+Z)"
+          >
+            <Redo2 size={16} />
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
+            title="Browse archived weeks"
+          >
+            <History size={16} />
+            History
+          </button>
+          <button
+            onClick={() => setShowStats(true)}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
+            title="Completion statistics"
+          >
+            <BarChart3 size={16} />
+            Stats
+          </button>
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
+            title="Board and section templates"
+          >
+            <LayoutTemplate size={16} />
+            Templates
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-2.5 rounded-lg transition-colors"
+            title="Settings and snapshots"
+          >
+            <Settings size={16} />
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
             className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
             title="Export Data"
           >
@@ -448,6 +1115,14 @@ const TrelloBoard: React.FC = () => {
             <Upload size={16} />
             Import
           </button>
+          <button
+            onClick={() => setMarkdownImport({ source: "" })}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
+            title="Import tasks from Markdown checklists"
+          >
+            <FileText size={16} />
+            Markdown
+          </button>
           <button
             onClick={addSection}
             className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
@@ -462,242 +1137,735 @@ const TrelloBoard: React.FC = () => {
         type="file"
         ref={fileInputRef}
         onChange={importData}
+        accept=".json,.md,.markdown,.txt"
+        style={{ display: "none" }}
+      />
+      <input
+        type="file"
+        ref={boardFileInputRef}
+        onChange={importBoardFile}
         accept=".json"
         style={{ display: "none" }}
       />
 
-      <div className="bg-white border border-gray-300 overflow-hidden">
+      {dataErrors && (
+        <SchemaErrors
+          title={dataErrors.title}
+          issues={dataErrors.issues}
+          onDismiss={() => setDataErrors(null)}
+        />
+      )}
+
+      {conflicts.length > 0 && (
+        <SyncConflicts
+          conflicts={conflicts}
+          onUseTheirs={(conflict) => {
+            dispatch({
+              type: "resolveConflict",
+              taskId: conflict.taskId,
+              version: conflict.remote,
+            });
+            dismissConflict(conflict.taskId);
+          }}
+          onDismiss={(conflict) => dismissConflict(conflict.taskId)}
+        />
+      )}
+
+      {woken.length > 0 && (
+        <SnoozeBanner tasks={woken} onDismiss={dismissWoken} />
+      )}
+
+      {selection.band && (
+        <div
+          className="fixed border border-blue-500 bg-blue-500/10 pointer-events-none z-40"
+          style={selection.band}
+        />
+      )}
+
+      {selectedTasks.length > 0 && (
+        <BatchActionBar
+          count={selectedTasks.length}
+          sections={sections}
+          onMarkDone={markSelectedDone}
+          onDelete={deleteSelected}
+          onMove={moveSelected}
+          onCopy={() => void copySelectedAsMarkdown()}
+          onClear={selection.clear}
+        />
+      )}
+
+      {toast && (
+        <Toast
+          toast={toast}
+          onAction={undoLastChange}
+          onDismiss={dismissToast}
+        />
+      )}
+
+      {openTask && selectTask(sections, openTask, openTask.taskId) && (
+        <TaskDetails
+          key={openTask.taskId}
+          task={selectTask(sections, openTask, openTask.taskId)!}
+          location={`${selectSection(sections, openTask.sectionId)?.title} › ${
+            selectColumn(sections, openTask)?.title
+          }`}
+          snoozeTargets={SNOOZE_TARGETS.flatMap((target) => {
+            const to = snoozeLocation(sections, openTask, target);
+            const title = to && selectSection(sections, to.sectionId)?.title;
+            return title ? [{ target, title }] : [];
+          })}
+          onChange={(changes) => updateTaskDetails(openTask, changes)}
+          onSnooze={(target, until) => snoozeTask(openTask, target, until)}
+          onClose={() => setOpenTask(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryView
+          archive={archive}
+          sections={sections}
+          onRestore={restoreArchivedTask}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          board={board}
+          onDownload={exportData}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {boardImport && (
+        <BoardImportDialog
+          board={board}
+          incoming={boardImport.board}
+          fileName={boardImport.fileName}
+          onImport={(merged) =>
+            dispatchWithUndo(
+              { type: "replaceBoard", board: merged },
+              "Board imported"
+            )
+          }
+          onReplaceAll={() =>
+            dispatchWithUndo(
+              { type: "replaceBoard", board: boardImport.board },
+              "Board replaced"
+            )
+          }
+          onClose={() => setBoardImport(null)}
+        />
+      )}
+
+      {markdownImport && (
+        <MarkdownImportDialog
+          sections={sections}
+          initialSource={markdownImport.source}
+          onImport={(imported, mode) =>
+            dispatchWithUndo(
+              {
+                type: "replaceBoard",
+                board: { ...board, sections: imported },
+                label: "Markdown imported",
+              },
+              mode === "merge"
+                ? "Markdown tasks merged"
+                : "Sections replaced from Markdown"
+            )
+          }
+          onClose={() => setMarkdownImport(null)}
+        />
+      )}
+
+      {showStats && (
+        <StatsView board={board} onClose={() => setShowStats(false)} />
+      )}
+
+      {showCommandBar && (
+        <CommandBar
+          sections={sections}
+          commands={commands}
+          onAdd={quickAddTask}
+          onOpenTask={setOpenTask}
+          onClose={() => setShowCommandBar(false)}
+        />
+      )}
+
+      {showTemplates && (
+        <TemplatesDialog
+          templates={templates}
+          onSaveBoard={(name) => {
+            saveTemplate(name, "board", sections);
+            setToast({
+              id: Date.now(),
+              message: `Saved this board as “${name.trim()}”`,
+            });
+          }}
+          onNewBoard={(template) =>
+            void createBoard(template.name, boardFromTemplate(template))
+          }
+          onReset={resetBoard}
+          onAddSection={(section) => {
+            dispatch({
+              type: "addSection",
+              section: instantiateSection(section, sections),
+            });
+            setShowTemplates(false);
+          }}
+          onDelete={deleteTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          settings={board.settings}
+          onChangeSettings={(changes) =>
+            dispatch({ type: "updateSettings", changes })
+          }
+          sync={{
+            settings: sync.settings,
+            onChange: sync.updateSettings,
+            status: syncStatus,
+            error: syncError,
+            onSyncNow: () => void syncNow(),
+            listRemoteBoards: async () =>
+              sync.server
+                ? (await fetchRemoteBoards(sync.server)).filter(
+                    (remote) =>
+                      !boards.boards.some((local) => local.id === remote.id)
+                  )
+                : [],
+            onAddRemoteBoard: addRemoteBoard,
+          }}
+          storageName={storageName}
+          supportsSnapshots={supportsSnapshots}
+          listSnapshots={listSnapshots}
+          onRestoreSnapshot={async (day) => {
+            await restoreSnapshot(day);
+            showUndoToast(`Restored the snapshot from ${day}`);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      <div
+        className="bg-white border border-gray-300 overflow-hidden"
+        role="region"
+        aria-label="Board. Use arrow keys or h j k l to move between cards."
+        onDrop={handleDrop}
+        onDragEnd={handleDragEnd}
+      >
         {sections.map((section, sectionIndex) => (
-          <div
-            key={section.id}
-            className={`${sectionIndex > 0 ? "border-t border-gray-300" : ""}`}
-          >
-            {/* Section Header */}
-            <div className="flex justify-between items-center p-3 bg-white border-b border-gray-300 shadow-sm">
-              <div className="flex items-center gap-4">
-                {editingSection === section.id ? (
-                  <input
-                    type="text"
-                    defaultValue={section.title}
-                    onBlur={(e) => editSectionTitle(section.id, e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === "Enter") {
-                        editSectionTitle(section.id, e.currentTarget.value);
+          <React.Fragment key={section.id}>
+            {isDropTarget({ kind: "section", index: sectionIndex }) && (
+              <DropIndicator />
+            )}
+            <div
+              className={`${sectionIndex > 0 ? "border-t border-gray-300" : ""}`}
+              onDragOver={(e) => {
+                if (dragItem?.kind === "section") {
+                  showDropTarget(e, {
+                    kind: "section",
+                    index: sectionIndex + (isPastMidpoint(e, "y") ? 1 : 0),
+                  });
+                }
+              }}
+            >
+              {/* Section Header */}
+              <div
+                className="flex justify-between items-center p-3 bg-white border-b border-gray-300 shadow-sm"
+                draggable={editingSection !== section.id}
+                onDragStart={(e) =>
+                  handleDragStart(e, { kind: "section", sectionId: section.id })
+                }
+              >
+                <div className="flex items-center gap-4">
+                  {editingSection === section.id ? (
+                    <input
+                      type="text"
+                      defaultValue={section.title}
+                      onBlur={(e) =>
+                        editSectionTitle(section.id, e.target.value)
                       }
-                    }}
-                    className="text-lg font-bold text-gray-800 bg-transparent border-b-2 border-blue-500 focus:outline-none"
-                    autoFocus
-                  />
-                ) : (
-                  <h2
-                    className="text-lg font-bold text-gray-800 cursor-pointer hover:bg-gray-100 px-2 py-1 rounded transition-colors"
-                    onClick={() => setEditingSection(section.id)}
-                  >
-                    {section.title}
-                  </h2>
-                )}
-              </div>
-
-              <div className="flex items-center gap-1">
-                <button
-                  onClick={() => copySectionAsMarkdown(section)}
-                  className={`p-1.5 rounded transition-colors ${
-                    copiedSection === section.id
-                      ? "bg-green-200 text-green-600"
-                      : "bg-gray-200 hover:bg-gray-300 text-gray-600"
-                  }`}
-                  title="Copy as Markdown"
-                >
-                  {copiedSection === section.id ? (
-                    <Check size={16} />
+                      onKeyPress={(e) => {
+                        if (e.key === "Enter") {
+                          editSectionTitle(section.id, e.currentTarget.value);
+                        }
+                      }}
+                      className="text-lg font-bold text-gray-800 bg-transparent border-b-2 border-blue-500 focus:outline-none"
+                      autoFocus
+                    />
                   ) : (
-                    <Copy size={16} />
+                    <h2
+                      className="text-lg font-bold text-gray-800 cursor-pointer hover:bg-gray-100 px-2 py-1 rounded transition-colors"
+                      onClick={() => setEditingSection(section.id)}
+                    >
+                      {section.title}
+                    </h2>
                   )}
-                </button>
-                <button
-                  onClick={() => addColumn(section.id)}
-                  className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
-                  title="Add Column"
-                >
-                  <Plus size={16} />
-                </button>
-                <button
-                  onClick={() => removeColumn(section.id)}
-                  disabled={section.columns.length <= 1}
-                  className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed text-gray-600 disabled:text-gray-400 p-1.5 rounded transition-colors"
-                  title="Remove Column"
-                >
-                  <Minus size={16} />
-                </button>
-                <button
-                  onClick={() => clearCompletedTasks(section.id)}
-                  className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
-                  title="Clear Completed Tasks"
-                >
-                  <Trash2 size={16} />
-                </button>
-                <button
-                  onClick={() => deleteSection(section.id)}
-                  className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
-                  title="Delete Section"
-                >
-                  <X size={16} />
-                </button>
-              </div>
-            </div>
+                </div>
 
-            {/* Columns */}
-            <div className="flex">
-              {section.columns.map((column, columnIndex) => (
-                <div
-                  key={column.id}
-                  className={`bg-gray-50 flex-1 min-w-0 ${
-                    columnIndex > 0 ? "border-l border-gray-300" : ""
-                  }`}
-                  onDragOver={handleDragOver}
-                  onDrop={(e) => handleDrop(e, section.id, column.id)}
-                >
-                  <div className="px-3 py-2 border-b border-gray-200 bg-gray-50">
-                    {editingColumn === column.id ? (
-                      <input
-                        type="text"
-                        defaultValue={column.title}
-                        onBlur={(e) =>
-                          editColumnTitle(section.id, column.id, e.target.value)
-                        }
-                        onKeyPress={(e) => {
-                          if (e.key === "Enter") {
-                            editColumnTitle(
-                              section.id,
-                              column.id,
-                              e.currentTarget.value
-                            );
-                          }
-                        }}
-                        className="font-semibold text-gray-700 text-sm bg-transparent border-b-2 border-blue-500 focus:outline-none w-full"
-                        autoFocus
-                      />
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => copySectionAsMarkdown(section)}
+                    className={`p-1.5 rounded transition-colors ${
+                      copiedSection === section.id
+                        ? "bg-green-200 text-green-600"
+                        : "bg-gray-200 hover:bg-gray-300 text-gray-600"
+                    }`}
+                    title="Copy as Markdown"
+                  >
+                    {copiedSection === section.id ? (
+                      <Check size={16} />
                     ) : (
-                      <h3
-                        className="font-semibold text-gray-700 text-sm cursor-pointer hover:bg-gray-100 px-2 py-1 rounded transition-colors"
-                        onClick={() => setEditingColumn(column.id)}
-                      >
-                        {column.title}
-                      </h3>
+                      <Copy size={16} />
                     )}
-                  </div>
+                  </button>
+                  <button
+                    onClick={() => addColumn(section.id)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+                    title="Add Column"
+                  >
+                    <Plus size={16} />
+                  </button>
+                  <button
+                    onClick={() => removeColumn(section.id)}
+                    disabled={section.columns.length <= 1}
+                    className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed text-gray-600 disabled:text-gray-400 p-1.5 rounded transition-colors"
+                    title="Remove Column"
+                  >
+                    <Minus size={16} />
+                  </button>
+                  <button
+                    onClick={() => saveSectionAsTemplate(section)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+                    title="Save as Template"
+                  >
+                    <BookmarkPlus size={16} />
+                  </button>
+                  <button
+                    onClick={() => clearCompletedTasks(section.id)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+                    title="Clear Completed Tasks"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                  <button
+                    onClick={() => deleteSection(section.id)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+                    title="Delete Section"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              </div>
 
-                  <div className="p-3 space-y-2 min-h-32">
-                    {column.tasks.map((task) => (
+              {/* Columns */}
+              {search && !section.columns.some(hasVisibleTasks) ? (
+                <p className="px-3 py-2 text-sm text-gray-400 bg-gray-50">
+                  No matching cards
+                </p>
+              ) : (
+                <div className="flex">
+                  {section.columns.map((column, columnIndex) => (
+                    <React.Fragment key={column.id}>
+                      {isDropTarget({
+                        kind: "column",
+                        sectionId: section.id,
+                        index: columnIndex,
+                      }) && <DropIndicator vertical />}
                       <div
-                        key={task.id}
-                        draggable
-                        onDragStart={() =>
-                          handleDragStart(task, section.id, column.id)
-                        }
-                        className={`bg-white p-2 border border-gray-200 cursor-move shadow-sm hover:shadow-md transition-all group ${
-                          task.completed ? "opacity-60" : ""
-                        }`}
+                        className={`${
+                          isOverWipLimit(column) ? "bg-red-50" : "bg-gray-50"
+                        } ${
+                          search && !hasVisibleTasks(column)
+                            ? "flex-none w-9"
+                            : "flex-1 min-w-0"
+                        } ${columnIndex > 0 ? "border-l border-gray-300" : ""}`}
+                        onDragOver={(e) => {
+                          if (dragItem?.kind === "task") {
+                            showDropTarget(e, {
+                              kind: "task",
+                              sectionId: section.id,
+                              columnId: column.id,
+                              index: column.tasks.length,
+                            });
+                          } else if (dragItem?.kind === "column") {
+                            showDropTarget(e, {
+                              kind: "column",
+                              sectionId: section.id,
+                              index:
+                                columnIndex + (isPastMidpoint(e, "x") ? 1 : 0),
+                            });
+                          }
+                        }}
                       >
-                        <div className="flex items-center gap-2">
-                          <input
-                            type="checkbox"
-                            checked={task.completed}
-                            onChange={() =>
-                              toggleTaskCompletion(
-                                section.id,
-                                column.id,
-                                task.id
-                              )
-                            }
-                            className="w-4 h-4 accent-gray-500 bg-gray-100 border-gray-300 rounded focus:ring-gray-500 focus:ring-2 cursor-pointer"
-                            onClick={(e) => e.stopPropagation()}
-                          />
-                          <div className="flex justify-between items-center flex-1">
-                            {editingTask === task.id ? (
-                              <input
-                                type="text"
-                                defaultValue={task.title}
-                                onBlur={(e) =>
-                                  editTaskTitle(
-                                    section.id,
-                                    column.id,
-                                    task.id,
-                                    e.target.value
-                                  )
-                                }
-                                onKeyDown={(e) => {
-                                  if (e.key === "Enter") {
-                                    editTaskTitle(
+                        {search && !hasVisibleTasks(column) ? (
+                          <p
+                            className="px-2 py-3 text-xs text-gray-400 [writing-mode:vertical-rl]"
+                            title={column.title}
+                          >
+                            {column.title}
+                          </p>
+                        ) : (
+                          <>
+                            <div
+                              className={`px-3 py-2 border-b flex items-center gap-1 ${
+                                isOverWipLimit(column)
+                                  ? "border-red-300 bg-red-50"
+                                  : "border-gray-200 bg-gray-50"
+                              }`}
+                              draggable={editingColumn !== column.id}
+                              onDragStart={(e) =>
+                                handleDragStart(e, {
+                                  kind: "column",
+                                  columnId: column.id,
+                                  sectionId: section.id,
+                                })
+                              }
+                            >
+                              {editingColumn === column.id ? (
+                                <input
+                                  type="text"
+                                  defaultValue={column.title}
+                                  onBlur={(e) =>
+                                    editColumnTitle(
                                       section.id,
                                       column.id,
-                                      task.id,
-                                      e.currentTarget.value
-                                    );
-                                  } else if (e.key === "Escape") {
-                                    setEditingTask(null);
+                                      e.target.value
+                                    )
                                   }
-                                }}
-                                className="text-gray-800 bg-transparent border-b border-gray-300 focus:outline-none focus:border-blue-500 flex-1 mr-2 text-sm"
-                                autoFocus
-                                onClick={(e) => e.stopPropagation()}
+                                  onKeyPress={(e) => {
+                                    if (e.key === "Enter") {
+                                      editColumnTitle(
+                                        section.id,
+                                        column.id,
+                                        e.currentTarget.value
+                                      );
+                                    }
+                                  }}
+                                  className="font-semibold text-gray-700 text-sm bg-transparent border-b-2 border-blue-500 focus:outline-none w-full"
+                                  autoFocus
+                                />
+                              ) : (
+                                <h3
+                                  data-column-id={column.id}
+                                  tabIndex={
+                                    isFocused(
+                                      section.id,
+                                      column.id,
+                                      null,
+                                      tabStop
+                                    )
+                                      ? 0
+                                      : -1
+                                  }
+                                  onFocus={() =>
+                                    setFocus({
+                                      sectionId: section.id,
+                                      columnId: column.id,
+                                      taskId: null,
+                                    })
+                                  }
+                                  className={`flex-1 min-w-0 font-semibold text-gray-700 text-sm cursor-pointer hover:bg-gray-100 px-2 py-1 rounded transition-colors focus:outline-none ${
+                                    isFocused(section.id, column.id, null)
+                                      ? "ring-2 ring-blue-500"
+                                      : ""
+                                  }`}
+                                  onClick={() => setEditingColumn(column.id)}
+                                >
+                                  {column.title}
+                                </h3>
+                              )}
+                              <WipLimitEditor
+                                open={openTaskCount(column)}
+                                limit={column.wipLimit}
+                                onChange={(limit) =>
+                                  dispatch({
+                                    type: "setWipLimit",
+                                    sectionId: section.id,
+                                    columnId: column.id,
+                                    limit,
+                                  })
+                                }
                               />
-                            ) : (
-                              <span
-                                className={`cursor-pointer hover:bg-gray-50 px-1 py-0.5 rounded flex-1 transition-colors text-sm ${
-                                  task.completed
-                                    ? "line-through text-gray-500"
-                                    : "text-gray-800"
-                                }`}
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setEditingTask(task.id);
-                                }}
-                              >
-                                {task.title}
-                              </span>
-                            )}
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteTask(section.id, column.id, task.id);
-                              }}
-                              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-all ml-1"
+                            </div>
+
+                            <div
+                              className="p-3 space-y-2 min-h-32"
+                              role="list"
+                              aria-label={`${section.title}: ${column.title}`}
                             >
-                              <X size={12} />
-                            </button>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
+                              {column.tasks.map(
+                                (task, taskIndex) =>
+                                  isVisible(task.id) && (
+                                    <React.Fragment key={task.id}>
+                                      {isDropTarget({
+                                        kind: "task",
+                                        sectionId: section.id,
+                                        columnId: column.id,
+                                        index: taskIndex,
+                                      }) && <DropIndicator />}
+                                      <div
+                                        data-task-id={task.id}
+                                        role="listitem"
+                                        aria-label={`${task.title}${
+                                          task.completed ? " (done)" : ""
+                                        }`}
+                                        tabIndex={
+                                          isFocused(
+                                            section.id,
+                                            column.id,
+                                            task.id,
+                                            tabStop
+                                          )
+                                            ? 0
+                                            : -1
+                                        }
+                                        onFocus={() =>
+                                          setFocus({
+                                            sectionId: section.id,
+                                            columnId: column.id,
+                                            taskId: task.id,
+                                          })
+                                        }
+                                        draggable={editingTask !== task.id}
+                                        onClickCapture={(e) => {
+                                          if (
+                                            selection.handleClick(task.id, e)
+                                          ) {
+                                            e.preventDefault();
+                                            e.stopPropagation();
+                                          }
+                                        }}
+                                        onDragStart={(e) =>
+                                          handleDragStart(e, {
+                                            kind: "task",
+                                            taskId: task.id,
+                                            from: {
+                                              sectionId: section.id,
+                                              columnId: column.id,
+                                            },
+                                          })
+                                        }
+                                        onDragOver={(e) => {
+                                          if (dragItem?.kind === "task") {
+                                            showDropTarget(e, {
+                                              kind: "task",
+                                              sectionId: section.id,
+                                              columnId: column.id,
+                                              index:
+                                                taskIndex +
+                                                (isPastMidpoint(e, "y")
+                                                  ? 1
+                                                  : 0),
+                                            });
+                                          }
+                                        }}
+                                        className={`p-2 border cursor-move shadow-sm hover:shadow-md transition-all group focus:outline-none ${
+                                          selection.isSelected(task.id)
+                                            ? "bg-blue-50 border-blue-400"
+                                            : "bg-white border-gray-200"
+                                        } ${
+                                          task.completed ? "opacity-60" : ""
+                                        } ${
+                                          isFocused(
+                                            section.id,
+                                            column.id,
+                                            task.id
+                                          )
+                                            ? "ring-2 ring-blue-500"
+                                            : ""
+                                        }`}
+                                      >
+                                        {task.labels && (
+                                          <div className="flex gap-1 mb-1">
+                                            {task.labels.map((label) => (
+                                              <span
+                                                key={label}
+                                                className={`h-1.5 w-8 rounded-full ${LABEL_CLASSES[label]}`}
+                                                title={label}
+                                              />
+                                            ))}
+                                          </div>
+                                        )}
+                                        <div className="flex items-center gap-2">
+                                          <input
+                                            type="checkbox"
+                                            checked={task.completed}
+                                            onChange={() =>
+                                              toggleTaskCompletion(
+                                                section.id,
+                                                column.id,
+                                                task.id
+                                              )
+                                            }
+                                            className="w-4 h-4 accent-gray-500 bg-gray-100 border-gray-300 rounded focus:ring-gray-500 focus:ring-2 cursor-pointer"
+                                            onClick={(e) => e.stopPropagation()}
+                                          />
+                                          <div className="flex justify-between items-center flex-1">
+                                            {editingTask === task.id ? (
+                                              <input
+                                                type="text"
+                                                defaultValue={task.title}
+                                                onBlur={(e) =>
+                                                  editTaskTitle(
+                                                    section.id,
+                                                    column.id,
+                                                    task.id,
+                                                    e.target.value
+                                                  )
+                                                }
+                                                onKeyDown={(e) => {
+                                                  if (e.key === "Enter") {
+                                                    editTaskTitle(
+                                                      section.id,
+                                                      column.id,
+                                                      task.id,
+                                                      e.currentTarget.value
+                                                    );
+                                                  } else if (
+                                                    e.key === "Escape"
+                                                  ) {
+                                                    setEditingTask(null);
+                                                  }
+                                                }}
+                                                className="text-gray-800 bg-transparent border-b border-gray-300 focus:outline-none focus:border-blue-500 flex-1 mr-2 text-sm"
+                                                autoFocus
+                                                onClick={(e) =>
+                                                  e.stopPropagation()
+                                                }
+                                              />
+                                            ) : (
+                                              <span
+                                                className={`cursor-pointer hover:bg-gray-50 px-1 py-0.5 rounded flex-1 transition-colors text-sm ${
+                                                  task.completed
+                                                    ? "line-through text-gray-500"
+                                                    : "text-gray-800"
+                                                }`}
+                                                onClick={(e) => {
+                                                  e.stopPropagation();
+                                                  setEditingTask(task.id);
+                                                }}
+                                              >
+                                                <HighlightedText
+                                                  text={task.title}
+                                                  positions={search?.highlights.get(
+                                                    task.id
+                                                  )}
+                                                />
+                                              </span>
+                                            )}
+                                            <button
+                                              onClick={(e) => {
+                                                e.stopPropagation();
+                                                setOpenTask({
+                                                  sectionId: section.id,
+                                                  columnId: column.id,
+                                                  taskId: task.id,
+                                                });
+                                              }}
+                                              className="opacity-0 group-hover:opacity-100 group-focus:opacity-100 text-gray-400 hover:text-blue-500 transition-all ml-1"
+                                              title="Open details (o)"
+                                              tabIndex={-1}
+                                            >
+                                              <Maximize2 size={12} />
+                                            </button>
+                                            <button
+                                              onClick={(e) => {
+                                                e.stopPropagation();
+                                                deleteTask(
+                                                  section.id,
+                                                  column.id,
+                                                  task.id
+                                                );
+                                              }}
+                                              className="opacity-0 group-hover:opacity-100 group-focus:opacity-100 text-gray-400 hover:text-red-500 transition-all ml-1"
+                                              title="Delete card"
+                                              tabIndex={-1}
+                                            >
+                                              <X size={12} />
+                                            </button>
+                                          </div>
+                                        </div>
+                                        <TaskBadges task={task} />
+                                      </div>
+                                    </React.Fragment>
+                                  )
+                              )}
+                              {isDropTarget({
+                                kind: "task",
+                                sectionId: section.id,
+                                columnId: column.id,
+                                index: column.tasks.length,
+                              }) && <DropIndicator />}
 
-                    <AddTaskForm
-                      onAddTask={(title) =>
-                        addTask(section.id, column.id, title)
-                      }
-                    />
-                  </div>
+                              <AddTaskForm
+                                isAdding={addingColumn === column.id}
+                                onStart={() => setAddingColumn(column.id)}
+                                onCancel={() => setAddingColumn(null)}
+                                onAddTask={(title) =>
+                                  addTask(section.id, column.id, title)
+                                }
+                                onAddTasks={(lines) =>
+                                  addTasks(
+                                    {
+                                      sectionId: section.id,
+                                      columnId: column.id,
+                                    },
+                                    lines
+                                  )
+                                }
+                              />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </React.Fragment>
+                  ))}
+                  {isDropTarget({
+                    kind: "column",
+                    sectionId: section.id,
+                    index: section.columns.length,
+                  }) && <DropIndicator vertical />}
                 </div>
-              ))}
+              )}
             </div>
-          </div>
+          </React.Fragment>
         ))}
+        {isDropTarget({ kind: "section", index: sections.length }) && (
+          <DropIndicator />
+        )}
       </div>
     </div>
   );
 };
 
-const AddTaskForm: React.FC<{ onAddTask: (title: string) => void }> = ({
-  onAddTask,
-}) => {
-  const [isAdding, setIsAdding] = useState(false);
+const AddTaskForm: React.FC<{
+  isAdding: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+  onAddTask: (title: string) => void;
+  onAddTasks: (lines: { title: string; completed: boolean }[]) => void;
+}> = ({ isAdding, onStart, onCancel, onAddTask, onAddTasks }) => {
   const [taskTitle, setTaskTitle] = useState("");
+  // Several lines, e.g. a pasted list, become one card each
+  const { lines, asList } = readTaskInput(taskTitle);
+
+  const finish = () => {
+    setTaskTitle("");
+    onCancel();
+  };
 
   const handleSubmit = () => {
-    if (taskTitle.trim()) {
-      onAddTask(taskTitle);
-      setTaskTitle("");
-      setIsAdding(false);
+    if (asList) {
+      onAddTasks(lines);
+      finish();
+    } else if (lines.length > 0) {
+      onAddTask(lines[0].title);
+      finish();
     }
   };
 
@@ -708,21 +1876,55 @@ const AddTaskForm: React.FC<{ onAddTask: (title: string) => void }> = ({
           placeholder="Enter a title for this card..."
           value={taskTitle}
           onChange={(e) => setTaskTitle(e.target.value)}
-          onKeyPress={(e) => e.key === "Enter" && !e.shiftKey && handleSubmit()}
+          onKeyPress={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              onCancel();
+              setTaskTitle("");
+            }
+          }}
           className="w-full p-2 border border-gray-200 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
-          rows={2}
+          rows={lines.length > 1 ? 4 : 2}
           autoFocus
         />
+        {lines.length > 1 && (
+          <ul className="text-xs text-gray-600 space-y-0.5 max-h-32 overflow-auto">
+            {lines.map((line, i) => (
+              <li key={i} className="flex items-center gap-1.5 truncate">
+                <input type="checkbox" checked={line.completed} readOnly />
+                <span className={line.completed ? "line-through" : ""}>
+                  {line.title}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="flex gap-2">
           <button
             onClick={handleSubmit}
             className="bg-blue-500 text-white px-2 py-1 text-sm rounded hover:bg-blue-600 transition-colors"
           >
-            Add card
+            {lines.length > 1 ? `Create ${lines.length} cards` : "Add card"}
           </button>
+          {lines.length > 1 && (
+            <button
+              onClick={() => {
+                onAddTask(taskTitle);
+                finish();
+              }}
+              className="text-gray-500 hover:text-gray-700 text-sm transition-colors"
+            >
+              Keep as one card
+            </button>
+          )}
           <button
             onClick={() => {
-              setIsAdding(false);
+              onCancel();
               setTaskTitle("");
             }}
             className="text-gray-500 hover:text-gray-700 transition-colors"
@@ -736,7 +1938,7 @@ const AddTaskForm: React.FC<{ onAddTask: (title: string) => void }> = ({
 
   return (
     <button
-      onClick={() => setIsAdding(true)}
+      onClick={onStart}
       className="w-full text-left text-gray-500 hover:text-gray-700 hover:bg-gray-100 p-2 text-sm transition-colors flex items-center gap-2"
     >
       <Plus size={14} />
@@ -745,4 +1947,30 @@ const AddTaskForm: React.FC<{ onAddTask: (title: string) => void }> = ({
   );
 };
 
-export default TrelloBoard;
+/** Shows the board picked in the switcher; each board mounts afresh. */
+const App: React.FC = () => {
+  const boards = useBoards();
+  const sync = useSyncSettings();
+  const serviceWorker = useServiceWorker();
+  return (
+    <>
+      {boards.loaded ? (
+        <TrelloBoard
+          key={boards.activeId}
+          boardId={boards.activeId}
+          boards={boards}
+          sync={sync}
+        />
+      ) : (
+        <div className="min-h-screen bg-blue-50 p-6 text-sm text-gray-500">
+          Loading board…
+        </div>
+      )}
+      {serviceWorker.updateAvailable && (
+        <UpdatePrompt onReload={serviceWorker.reload} />
+      )}
+    </>
+  );
+};
+
+export default App;
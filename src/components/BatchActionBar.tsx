@@ -0,0 +1,87 @@
+import { CheckSquare, Copy, Square, Trash2, X } from "lucide-react";
+import React from "react";
+import { cardCount, type TaskLocation } from "../lib/board";
+import type { Section } from "../types";
+
+interface BatchActionBarProps {
+  count: number;
+  sections: Section[];
+  onMarkDone: (done: boolean) => void;
+  onDelete: () => void;
+  onMove: (to: TaskLocation) => void;
+  onCopy: () => void;
+  onClear: () => void;
+}
+
+const button =
+  "bg-gray-700 hover:bg-gray-600 text-white px-2.5 py-1.5 rounded flex items-center gap-1.5 text-sm transition-colors";
+
+/** Actions for every selected card, shown while there is a selection. */
+const BatchActionBar: React.FC<BatchActionBarProps> = ({
+  count,
+  sections,
+  onMarkDone,
+  onDelete,
+  onMove,
+  onCopy,
+  onClear,
+}) => (
+  <div
+    className="fixed bottom-20 left-1/2 -translate-x-1/2 bg-gray-800 text-white px-3 py-2 rounded-lg shadow-lg flex items-center gap-2 z-40"
+    role="toolbar"
+    aria-label="Selected cards"
+  >
+    <span className="text-sm px-1">{cardCount(count)} selected</span>
+    <button onClick={() => onMarkDone(true)} className={button}>
+      <CheckSquare size={14} />
+      Done
+    </button>
+    <button onClick={() => onMarkDone(false)} className={button}>
+      <Square size={14} />
+      Not done
+    </button>
+    <select
+      value=""
+      onChange={(e) => {
+        const [sectionIndex, columnIndex] = e.target.value.split(":");
+        const section = sections[Number(sectionIndex)];
+        onMove({
+          sectionId: section.id,
+          columnId: section.columns[Number(columnIndex)].id,
+        });
+      }}
+      aria-label="Move selected cards to"
+      className="bg-gray-700 hover:bg-gray-600 text-white px-2 py-1.5 rounded text-sm"
+    >
+      <option value="" disabled>
+        Move to…
+      </option>
+      {sections.map((section, sectionIndex) => (
+        <optgroup key={section.id} label={section.title}>
+          {section.columns.map((col, columnIndex) => (
+            <option key={col.id} value={`${sectionIndex}:${columnIndex}`}>
+              {col.title}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+    <button onClick={onCopy} className={button}>
+      <Copy size={14} />
+      Copy as Markdown
+    </button>
+    <button onClick={onDelete} className={`${button} hover:bg-red-600`}>
+      <Trash2 size={14} />
+      Delete
+    </button>
+    <button
+      onClick={onClear}
+      className="text-gray-300 hover:text-white p-1.5"
+      title="Clear selection (Esc)"
+    >
+      <X size={16} />
+    </button>
+  </div>
+);
+
+export default BatchActionBar;
@@ -0,0 +1,185 @@
+import { X } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import {
+  applyBoardImport,
+  planBoardImport,
+  type DiffEntry,
+  type SectionImportMode,
+} from "../lib/boardImport";
+import type { BoardData } from "../types";
+
+interface BoardImportDialogProps {
+  board: BoardData;
+  incoming: BoardData;
+  fileName: string;
+  onImport: (board: BoardData) => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const MODES: { mode: SectionImportMode; label: string }[] = [
+  { mode: "merge", label: "Merge" },
+  { mode: "replace", label: "Replace" },
+  { mode: "skip", label: "Skip" },
+];
+
+const DiffList: React.FC<{
+  entries: DiffEntry[];
+  sign: string;
+  className: string;
+}> = ({ entries, sign, className }) =>
+  entries.map(({ task, column }) => (
+    <li key={`${sign}${task.id}`} className={className}>
+      {sign} {task.title}
+      <span className="text-gray-400"> · {column}</span>
+    </li>
+  ));
+
+/** Preview of a JSON import, with a merge/replace/skip choice per section. */
+const BoardImportDialog: React.FC<BoardImportDialogProps> = ({
+  board,
+  incoming,
+  fileName,
+  onImport,
+  onReplaceAll,
+  onClose,
+}) => {
+  const plans = useMemo(
+    () => planBoardImport(board.sections, incoming.sections),
+    [board.sections, incoming.sections]
+  );
+  const [modes, setModes] = useState<Record<string, SectionImportMode>>(() =>
+    Object.fromEntries(
+      incoming.sections.map((section) => [section.id, "merge" as const])
+    )
+  );
+
+  const importSections = () => {
+    onImport(applyBoardImport(board, incoming, plans, modes));
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-4xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label={`Import ${fileName}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Import {fileName}</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <ul className="divide-y divide-gray-200">
+          {plans.map((plan) => {
+            const mode = modes[plan.incoming.id];
+            const diff = mode === "skip" ? null : plan.diffs[mode];
+            return (
+              <li key={plan.incoming.id} className="p-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-gray-800">
+                    {plan.incoming.title}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {plan.target ? `→ ${plan.target.title}` : "new section"}
+                  </span>
+                  <div
+                    className="ml-auto flex gap-1"
+                    role="radiogroup"
+                    aria-label={`Import mode for ${plan.incoming.title}`}
+                  >
+                    {MODES.map((option) => (
+                      <button
+                        key={option.mode}
+                        role="radio"
+                        aria-checked={mode === option.mode}
+                        onClick={() =>
+                          setModes((current) => ({
+                            ...current,
+                            [plan.incoming.id]: option.mode,
+                          }))
+                        }
+                        className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                          mode === option.mode
+                            ? "bg-blue-500 text-white"
+                            : "bg-gray-200 hover:bg-gray-300 text-gray-600"
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {diff && (
+                  <>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {diff.added.length} added · {diff.updated.length} updated
+                      · {diff.removed.length} removed
+                    </p>
+                    <ul className="mt-1 ml-2 font-mono text-xs space-y-0.5">
+                      <DiffList
+                        entries={diff.added}
+                        sign="+"
+                        className="text-green-700"
+                      />
+                      <DiffList
+                        entries={diff.updated}
+                        sign="~"
+                        className="text-amber-700"
+                      />
+                      <DiffList
+                        entries={diff.removed}
+                        sign="−"
+                        className="text-red-700"
+                      />
+                    </ul>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center gap-2 p-3 border-t border-gray-200">
+          <button
+            onClick={() => {
+              onReplaceAll();
+              onClose();
+            }}
+            className="mr-auto text-sm text-gray-500 hover:text-red-600 transition-colors"
+            title="Discard the current board and use the imported one as is"
+          >
+            Replace the entire board instead
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-1.5 text-sm rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={importSections}
+            disabled={Object.values(modes).every((mode) => mode === "skip")}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1.5 text-sm rounded transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardImportDialog;
@@ -0,0 +1,177 @@
+import {
+  Check,
+  ChevronDown,
+  Copy,
+  Download,
+  Edit2,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import React, { useState } from "react";
+import type { BoardSummary } from "../lib/boards";
+
+interface BoardSwitcherProps {
+  boards: BoardSummary[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExportAll: () => void;
+  onImport: () => void;
+}
+
+type Editing = "rename" | "create" | "delete" | null;
+
+const menuItem =
+  "w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2";
+
+const BoardSwitcher: React.FC<BoardSwitcherProps> = ({
+  boards,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExportAll,
+  onImport,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<Editing>(null);
+  const active = boards.find((board) => board.id === activeId);
+
+  const close = () => {
+    setOpen(false);
+    setEditing(null);
+  };
+
+  const run = (action: () => void) => () => {
+    action();
+    close();
+  };
+
+  const nameInput = (initial: string, submit: (name: string) => void) => (
+    <input
+      type="text"
+      defaultValue={initial}
+      aria-label="Board name"
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && e.currentTarget.value.trim()) {
+          submit(e.currentTarget.value.trim());
+          close();
+        }
+        if (e.key === "Escape") setEditing(null);
+      }}
+      className="w-full px-3 py-1.5 text-sm border-b-2 border-blue-500 focus:outline-none"
+      autoFocus
+    />
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-2 rounded-lg flex items-center gap-2 transition-colors"
+        title="Switch board"
+        aria-expanded={open}
+      >
+        <span className="max-w-48 truncate font-medium">{active?.name}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={close} />
+          <div
+            className="absolute left-0 top-full mt-1 w-64 bg-white border border-gray-300 rounded-lg shadow-lg py-1 z-50"
+            role="menu"
+            onKeyDown={(e) => e.key === "Escape" && close()}
+          >
+            {boards.map((board) => (
+              <button
+                key={board.id}
+                role="menuitem"
+                onClick={run(() => onSwitch(board.id))}
+                className={menuItem}
+              >
+                <Check
+                  size={14}
+                  className={board.id === activeId ? "" : "invisible"}
+                />
+                <span className="truncate">{board.name}</span>
+              </button>
+            ))}
+
+            <div className="border-t border-gray-200 my-1" />
+            {editing === "rename" ? (
+              nameInput(active?.name ?? "", onRename)
+            ) : (
+              <button onClick={() => setEditing("rename")} className={menuItem}>
+                <Edit2 size={14} />
+                Rename board
+              </button>
+            )}
+            <button onClick={run(onDuplicate)} className={menuItem}>
+              <Copy size={14} />
+              Duplicate board
+            </button>
+            {editing === "delete" ? (
+              <div className="px-3 py-1.5 text-sm text-gray-700 space-y-1">
+                <p>Delete “{active?.name}” and all its cards?</p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={run(onDelete)}
+                    className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-1 rounded"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setEditing("delete")}
+                disabled={boards.length <= 1}
+                className={`${menuItem} disabled:text-gray-300 disabled:hover:bg-transparent`}
+                title={
+                  boards.length <= 1 ? "The last board can't be deleted" : ""
+                }
+              >
+                <Trash2 size={14} />
+                Delete board
+              </button>
+            )}
+
+            <div className="border-t border-gray-200 my-1" />
+            {editing === "create" ? (
+              nameInput("", onCreate)
+            ) : (
+              <button onClick={() => setEditing("create")} className={menuItem}>
+                <Plus size={14} />
+                New board
+              </button>
+            )}
+            <button onClick={run(onExportAll)} className={menuItem}>
+              <Download size={14} />
+              Export all boards
+            </button>
+            <button onClick={run(onImport)} className={menuItem}>
+              <Upload size={14} />
+              Import as new boards…
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BoardSwitcher;
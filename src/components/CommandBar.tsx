@@ -0,0 +1,247 @@
+import { CornerDownLeft, Plus, Search, SquareCheck, Zap } from "lucide-react";
+import React, { useState } from "react";
+import { selectAllTasks, type TaskLocation } from "../lib/board";
+import { formatDueDate } from "../lib/dates";
+import { parseQuickAdd, type QuickAdd } from "../lib/quickAdd";
+import { describeRecurrence } from "../lib/recurrence";
+import { fuzzyMatch } from "../lib/search";
+import type { Section, Task } from "../types";
+import HighlightedText from "./HighlightedText";
+
+export interface Command {
+  id: string;
+  title: string;
+  run: () => void;
+}
+
+interface CommandBarProps {
+  sections: Section[];
+  commands: Command[];
+  onAdd: (quickAdd: QuickAdd) => void;
+  onOpenTask: (location: TaskLocation & { taskId: string }) => void;
+  onClose: () => void;
+}
+
+type Result =
+  | { kind: "add"; quickAdd: QuickAdd }
+  | { kind: "command"; command: Command; positions: number[] }
+  | {
+      kind: "task";
+      task: Task;
+      location: TaskLocation;
+      positions: number[];
+    };
+
+const MAX_COMMANDS = 6;
+const MAX_TASKS = 8;
+
+/** Lowercase words without emoji or punctuation, for exact matching. */
+const plainWords = (text: string) =>
+  ` ${text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()} `;
+
+/** Whether `title` contains all of `text` as whole words. */
+const containsText = (title: string, text: string) =>
+  plainWords(text).trim() !== "" &&
+  plainWords(title).includes(plainWords(text));
+
+const describeQuickAdd = ({ location, changes }: QuickAdd) =>
+  [
+    location && `${location.sectionTitle} › ${location.columnTitle}`,
+    changes.dueDate && `due ${formatDueDate(changes.dueDate)}`,
+    changes.recurrence && describeRecurrence(changes.recurrence),
+    changes.labels?.join(", "),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Ctrl/Cmd+K palette: adds a card from quick-add syntax, finds cards and
+ * runs commands. Input starting with ">" only lists commands.
+ *
+ * Adding comes first when the input uses quick-add tokens; otherwise the
+ * commands and cards that contain the input word for word come first.
+ */
+const CommandBar: React.FC<CommandBarProps> = ({
+  sections,
+  commands,
+  onAdd,
+  onOpenTask,
+  onClose,
+}) => {
+  const [input, setInput] = useState("");
+  const [active, setActive] = useState(0);
+
+  const commandsOnly = input.startsWith(">");
+  const text = (commandsOnly ? input.slice(1) : input).trim();
+  const quickAdd = parseQuickAdd(input, sections);
+
+  const add: Result[] =
+    !commandsOnly && quickAdd.title && quickAdd.location
+      ? [{ kind: "add", quickAdd }]
+      : [];
+  const matches: Exclude<Result, { kind: "add" }>[] = [
+    ...commands
+      .flatMap((command) => {
+        const positions = fuzzyMatch(command.title, text);
+        return positions
+          ? [{ kind: "command" as const, command, positions }]
+          : [];
+      })
+      .slice(0, commandsOnly ? undefined : MAX_COMMANDS),
+    ...(commandsOnly || !text
+      ? []
+      : selectAllTasks(sections)
+          .flatMap(({ task, location }) => {
+            const positions = fuzzyMatch(task.title, text);
+            return positions
+              ? [{ kind: "task" as const, task, location, positions }]
+              : [];
+          })
+          .slice(0, MAX_TASKS)),
+  ];
+  const usesSyntax =
+    quickAdd.title !== input.split(/\s+/).filter(Boolean).join(" ");
+  const exact = usesSyntax
+    ? []
+    : matches.filter((result) =>
+        containsText(
+          result.kind === "command" ? result.command.title : result.task.title,
+          text
+        )
+      );
+  const results: Result[] = [
+    ...exact,
+    ...add,
+    ...matches.filter((result) => !exact.includes(result)),
+  ];
+  const selected = Math.min(active, results.length - 1);
+
+  const run = (result: Result) => {
+    onClose();
+    switch (result.kind) {
+      case "add":
+        onAdd(result.quickAdd);
+        return;
+      case "command":
+        result.command.run();
+        return;
+      case "task":
+        onOpenTask({ ...result.location, taskId: result.task.id });
+        return;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((selected + step + results.length) % results.length);
+    } else if (e.key === "Enter" && results[selected]) {
+      e.preventDefault();
+      run(results[selected]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 pt-24 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-xl border border-gray-300 shadow-lg rounded-lg overflow-hidden"
+        role="dialog"
+        aria-label="Command bar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-gray-200">
+          <Search size={16} className="text-gray-400" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Add a card (Buy milk #errand @current due:fri !), find a card, or > for commands"
+            aria-label="Command"
+            className="flex-1 py-3 text-sm focus:outline-none"
+            autoFocus
+          />
+        </div>
+        <ul className="max-h-96 overflow-auto py-1" role="listbox">
+          {results.map((result, index) => (
+            <li
+              key={
+                result.kind === "add"
+                  ? "add"
+                  : result.kind === "command"
+                    ? result.command.id
+                    : result.task.id
+              }
+              role="option"
+              aria-selected={index === selected}
+              onMouseEnter={() => setActive(index)}
+              onClick={() => run(result)}
+              className={`px-3 py-2 flex items-center gap-2 text-sm cursor-pointer ${
+                index === selected ? "bg-blue-50" : ""
+              }`}
+            >
+              {result.kind === "add" && (
+                <>
+                  <Plus size={14} className="text-blue-500" />
+                  <span className="flex-1 min-w-0 truncate">
+                    Add “{result.quickAdd.title}”
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">
+                    {describeQuickAdd(result.quickAdd)}
+                  </span>
+                </>
+              )}
+              {result.kind === "command" && (
+                <>
+                  <Zap size={14} className="text-amber-500" />
+                  <span className="flex-1 min-w-0 truncate">
+                    <HighlightedText
+                      text={result.command.title}
+                      positions={result.positions}
+                    />
+                  </span>
+                </>
+              )}
+              {result.kind === "task" && (
+                <>
+                  <SquareCheck size={14} className="text-gray-400" />
+                  <span
+                    className={`flex-1 min-w-0 truncate ${
+                      result.task.completed ? "line-through text-gray-500" : ""
+                    }`}
+                  >
+                    <HighlightedText
+                      text={result.task.title}
+                      positions={result.positions}
+                    />
+                  </span>
+                </>
+              )}
+              {index === selected && (
+                <CornerDownLeft size={12} className="text-gray-400" />
+              )}
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-400">No matches</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandBar;
@@ -0,0 +1,162 @@
+import { Check, Copy, Download, X } from "lucide-react";
+import React, { useState } from "react";
+import { exportBoard, type ExportFile, type ExportFormat } from "../lib/export";
+import type { BoardData } from "../types";
+
+interface ExportDialogProps {
+  board: BoardData;
+  onDownload: (file: ExportFile) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "markdown", label: "Markdown", hint: "Checklists for notes apps" },
+  { format: "csv", label: "CSV", hint: "One row per task, for spreadsheets" },
+  { format: "json", label: "JSON", hint: "Everything, for importing back" },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  board,
+  onDownload,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+  const [sectionIds, setSectionIds] = useState(() =>
+    board.sections.map((section) => section.id)
+  );
+  const [copied, setCopied] = useState(false);
+
+  const file = exportBoard(board, { format, includeCompleted, sectionIds });
+
+  const toggleSection = (sectionId: string) =>
+    setSectionIds((ids) =>
+      ids.includes(sectionId)
+        ? ids.filter((id) => id !== sectionId)
+        : [...ids, sectionId]
+    );
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(file.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy to clipboard:", err);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-4xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label="Export"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Export</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 p-3">
+          <div className="space-y-4 text-sm text-gray-600">
+            <fieldset className="space-y-1">
+              <legend className="font-semibold text-gray-700 mb-1">
+                Format
+              </legend>
+              {FORMATS.map((option) => (
+                <label
+                  key={option.format}
+                  className="flex items-start gap-2 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === option.format}
+                    onChange={() => setFormat(option.format)}
+                    className="mt-1"
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-gray-500">
+                      {option.hint}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeCompleted}
+                onChange={(e) => setIncludeCompleted(e.target.checked)}
+                className="w-4 h-4 accent-gray-500"
+              />
+              Include completed tasks
+            </label>
+
+            <fieldset className="space-y-1">
+              <legend className="font-semibold text-gray-700 mb-1">
+                Sections
+              </legend>
+              {board.sections.map((section) => (
+                <label
+                  key={section.id}
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={sectionIds.includes(section.id)}
+                    onChange={() => toggleSection(section.id)}
+                    className="w-4 h-4 accent-gray-500"
+                  />
+                  {section.title}
+                </label>
+              ))}
+            </fieldset>
+          </div>
+
+          <textarea
+            readOnly
+            value={file.content}
+            aria-label="Export preview"
+            className="col-span-2 w-full p-2 border border-gray-200 text-xs font-mono text-gray-700 bg-gray-50"
+            rows={20}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 p-3 border-t border-gray-200">
+          <button
+            onClick={copyToClipboard}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-3 py-1.5 text-sm rounded flex items-center gap-2 transition-colors"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+            {copied ? "Copied" : "Copy"}
+          </button>
+          <button
+            onClick={() => onDownload(file)}
+            disabled={sectionIds.length === 0}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1.5 text-sm rounded flex items-center gap-2 transition-colors"
+          >
+            <Download size={14} />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
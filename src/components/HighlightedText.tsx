@@ -0,0 +1,42 @@
+import React from "react";
+
+/** Renders `text` with the characters at `positions` marked. */
+const HighlightedText: React.FC<{ text: string; positions?: number[] }> = ({
+  text,
+  positions,
+}) => {
+  if (!positions || positions.length === 0) return <>{text}</>;
+
+  const marked = new Set(positions);
+  const parts: React.ReactNode[] = [];
+  let run = "";
+  let runMarked = false;
+
+  const flush = () => {
+    if (!run) return;
+    parts.push(
+      runMarked ? (
+        <mark key={parts.length} className="bg-yellow-200 rounded-sm">
+          {run}
+        </mark>
+      ) : (
+        run
+      )
+    );
+    run = "";
+  };
+
+  text.split("").forEach((char, index) => {
+    const isMarked = marked.has(index);
+    if (isMarked !== runMarked) {
+      flush();
+      runMarked = isMarked;
+    }
+    run += char;
+  });
+  flush();
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
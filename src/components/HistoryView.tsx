@@ -0,0 +1,140 @@
+import { RotateCcw, X } from "lucide-react";
+import React, { useState } from "react";
+import type { Section, Task, WeekArchive } from "../types";
+
+interface HistoryViewProps {
+  archive: WeekArchive;
+  sections: Section[];
+  onRestore: (
+    week: string,
+    task: Task,
+    sectionId: string,
+    columnId: string
+  ) => void;
+  onClose: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({
+  archive,
+  sections,
+  onRestore,
+  onClose,
+}) => {
+  const weeks = Object.values(archive.weeks)
+    .filter((week) => week.days.some((day) => day.tasks.length > 0))
+    .sort((a, b) => b.week.localeCompare(a.week));
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(
+    weeks[0]?.week ?? null
+  );
+  const [target, setTarget] = useState(() => {
+    const section = sections.find((s) => s.id === "current") ?? sections[0];
+    return section ? `${section.id}/${section.columns[0]?.id}` : "";
+  });
+
+  const week = weeks.find((w) => w.week === selectedWeek) ?? weeks[0];
+
+  const restore = (task: Task) => {
+    const [sectionId, columnId] = target.split("/");
+    if (week && sectionId && columnId) {
+      onRestore(week.week, task, sectionId, columnId);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50">
+      <div className="bg-white w-full max-w-5xl max-h-full overflow-auto border border-gray-300 shadow-lg">
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">History</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {weeks.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">
+            No archived weeks yet. Finished tasks are archived automatically
+            when a new week starts.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 p-3 border-b border-gray-200">
+              {weeks.map((w) => (
+                <button
+                  key={w.week}
+                  onClick={() => setSelectedWeek(w.week)}
+                  className={`px-2 py-1 text-sm rounded transition-colors ${
+                    w.week === week?.week
+                      ? "bg-blue-500 text-white"
+                      : "bg-gray-200 hover:bg-gray-300 text-gray-600"
+                  }`}
+                >
+                  {w.week}
+                </button>
+              ))}
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                Restore to
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  {sections.map((section) => (
+                    <optgroup key={section.id} label={section.title}>
+                      {section.columns.map((col) => (
+                        <option key={col.id} value={`${section.id}/${col.id}`}>
+                          {col.title}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {week && (
+              <div className="flex">
+                {week.days.map((day, dayIndex) => (
+                  <div
+                    key={day.id}
+                    className={`bg-gray-50 flex-1 min-w-0 ${
+                      dayIndex > 0 ? "border-l border-gray-300" : ""
+                    }`}
+                  >
+                    <h3 className="px-3 py-2 border-b border-gray-200 font-semibold text-gray-700 text-sm">
+                      {day.title}
+                    </h3>
+                    <div className="p-3 space-y-2 min-h-32">
+                      {day.tasks.map((task) => (
+                        <div
+                          key={task.id}
+                          className="bg-white p-2 border border-gray-200 shadow-sm flex items-center gap-2 group"
+                        >
+                          <span className="flex-1 text-sm text-gray-800">
+                            {task.title}
+                          </span>
+                          <button
+                            onClick={() => restore(task)}
+                            className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-500 transition-all"
+                            title="Restore card"
+                          >
+                            <RotateCcw size={12} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,214 @@
+import { FileText, X } from "lucide-react";
+import React, { useMemo, useRef, useState } from "react";
+import {
+  applyMarkdownImport,
+  findImportSection,
+  parseMarkdown,
+  planMarkdownImport,
+} from "../lib/markdown";
+import type { Section } from "../types";
+
+interface MarkdownImportDialogProps {
+  sections: Section[];
+  initialSource?: string;
+  onImport: (sections: Section[], mode: "merge" | "replace") => void;
+  onClose: () => void;
+}
+
+const MarkdownImportDialog: React.FC<MarkdownImportDialogProps> = ({
+  sections,
+  initialSource = "",
+  onImport,
+  onClose,
+}) => {
+  const [source, setSource] = useState(initialSource);
+  const [fallbackSectionId, setFallbackSectionId] = useState(
+    () => (sections.find((s) => s.id === "current") ?? sections[0])?.id ?? ""
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const plan = useMemo(() => {
+    const parsed = parseMarkdown(
+      source,
+      (title) =>
+        findImportSection(sections, title, fallbackSectionId)?.columns.map(
+          (col) => col.title
+        ) ?? []
+    );
+    return planMarkdownImport(sections, parsed, fallbackSectionId);
+  }, [sections, source, fallbackSectionId]);
+  const tasks = plan.flatMap((s) => s.columns.flatMap((col) => col.tasks));
+  const duplicates = tasks.filter((entry) => entry.duplicate).length;
+
+  const readFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => setSource(e.target?.result as string);
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const importAs = (mode: "merge" | "replace") => {
+    onImport(applyMarkdownImport(sections, plan, mode), mode);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-5xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label="Import Markdown"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Import Markdown</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 p-3">
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={
+                "# Backlog\n## Errand\n- [ ] Return the library books\n- [x] Errand: Post office"
+              }
+              className="w-full p-2 border border-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+              rows={16}
+              autoFocus
+            />
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-1 rounded flex items-center gap-1 transition-colors"
+              >
+                <FileText size={14} />
+                Open file…
+              </button>
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={readFile}
+                accept=".md,.markdown,.txt"
+                style={{ display: "none" }}
+              />
+              <label className="ml-auto flex items-center gap-2">
+                Items without a heading go to
+                <select
+                  value={fallbackSectionId}
+                  onChange={(e) => setFallbackSectionId(e.target.value)}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  {sections.map((section) => (
+                    <option key={section.id} value={section.id}>
+                      {section.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 p-2 text-sm overflow-auto max-h-96">
+            {plan.length === 0 ? (
+              <p className="text-gray-500">
+                Paste Markdown checklists or open a file to see what will be
+                imported. Headings become sections, sub-headings or{" "}
+                <code className="bg-gray-100 px-1 rounded text-xs">
+                  Column:
+                </code>{" "}
+                prefixes become columns.
+              </p>
+            ) : (
+              plan.map((section) => (
+                <div key={section.id} className="mb-3">
+                  <p className="font-semibold text-gray-800">
+                    {section.title}
+                    {section.isNew && (
+                      <span className="ml-2 text-xs font-normal text-blue-600">
+                        new section
+                      </span>
+                    )}
+                  </p>
+                  {section.columns.map((col) => (
+                    <div key={col.id} className="ml-3 mt-1">
+                      <p className="text-gray-600">
+                        {col.title}
+                        {col.isNew && (
+                          <span className="ml-2 text-xs text-blue-600">
+                            new column
+                          </span>
+                        )}
+                      </p>
+                      <ul className="ml-3">
+                        {col.tasks.map(({ task, duplicate }) => (
+                          <li key={task.id} className="flex items-center gap-2">
+                            <span
+                              className={`text-xs px-1 rounded ${
+                                duplicate
+                                  ? "bg-amber-100 text-amber-800"
+                                  : "bg-green-100 text-green-800"
+                              }`}
+                            >
+                              {duplicate ? "duplicate" : "new"}
+                            </span>
+                            <span
+                              className={
+                                task.completed
+                                  ? "line-through text-gray-500"
+                                  : "text-gray-800"
+                              }
+                            >
+                              {task.title}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 p-3 border-t border-gray-200">
+          <span className="text-sm text-gray-500 mr-auto">
+            {tasks.length} {tasks.length === 1 ? "task" : "tasks"}
+            {duplicates > 0 && `, ${duplicates} already on the board`}
+          </span>
+          <button
+            onClick={() => importAs("merge")}
+            disabled={tasks.length === duplicates}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1.5 text-sm rounded transition-colors"
+            title="Add the new tasks and skip duplicates"
+          >
+            Merge new tasks
+          </button>
+          <button
+            onClick={() => importAs("replace")}
+            disabled={tasks.length === 0}
+            className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 text-gray-600 px-3 py-1.5 text-sm rounded transition-colors"
+            title="Replace the tasks in every imported section"
+          >
+            Replace sections
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownImportDialog;
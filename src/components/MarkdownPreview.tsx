@@ -0,0 +1,94 @@
+import React from "react";
+
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (
+      ((part.startsWith("*") && part.endsWith("*")) ||
+        (part.startsWith("_") && part.endsWith("_"))) &&
+      part.length > 2
+    ) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return (
+        <code key={index} className="bg-gray-100 px-1 rounded text-xs">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+    if (link && /^(https?:|mailto:)/.test(link[2])) {
+      return (
+        <a
+          key={index}
+          href={link[2]}
+          target="_blank"
+          rel="noreferrer"
+          className="text-blue-600 underline"
+        >
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+
+/** Renders the small subset of Markdown people type into card notes. */
+const MarkdownPreview: React.FC<{ source: string }> = ({ source }) => {
+  const blocks: React.ReactNode[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushList = () => {
+    if (!list) return;
+    const items = list.items.map((item, index) => (
+      <li key={index}>{renderInline(item)}</li>
+    ));
+    blocks.push(
+      list.ordered ? (
+        <ol key={blocks.length} className="list-decimal pl-5">
+          {items}
+        </ol>
+      ) : (
+        <ul key={blocks.length} className="list-disc pl-5">
+          {items}
+        </ul>
+      )
+    );
+    list = null;
+  };
+
+  source.split("\n").forEach((line) => {
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+    const numbered = /^\s*\d+\.\s+(.*)$/.exec(line);
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+
+    if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (list && list.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+      return;
+    }
+    flushList();
+    if (heading) {
+      blocks.push(
+        <p key={blocks.length} className="font-semibold">
+          {renderInline(heading[2])}
+        </p>
+      );
+    } else if (line.trim()) {
+      blocks.push(<p key={blocks.length}>{renderInline(line)}</p>);
+    }
+  });
+  flushList();
+
+  return <div className="space-y-2 text-sm text-gray-800">{blocks}</div>;
+};
+
+export default MarkdownPreview;
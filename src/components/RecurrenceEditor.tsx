@@ -0,0 +1,123 @@
+import React from "react";
+import { WEEKDAY_NAMES } from "../lib/recurrence";
+import type { Recurrence } from "../types";
+
+interface RecurrenceEditorProps {
+  value: Recurrence | undefined;
+  /** Due date the defaults for weekly and monthly rules are taken from. */
+  dueDate: string | undefined;
+  onChange: (value: Recurrence | undefined) => void;
+}
+
+const defaultRule = (
+  kind: Recurrence["kind"],
+  dueDate: string | undefined
+): Recurrence => {
+  const [year, month, day] = (dueDate ?? "").split("-").map(Number);
+  const date = dueDate ? new Date(year, month - 1, day) : new Date();
+  switch (kind) {
+    case "daily":
+    case "weekdays":
+      return { kind };
+    case "weekly":
+      return { kind, days: [date.getDay()] };
+    case "interval":
+      return { kind, days: 2 };
+    case "monthly":
+      return { kind, day: date.getDate() };
+  }
+};
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({
+  value,
+  dueDate,
+  onChange,
+}) => (
+  <div className="text-sm text-gray-600 flex flex-col gap-1">
+    <span className="font-semibold text-gray-700">Repeats</span>
+    <div className="flex items-center gap-2">
+      <select
+        value={value?.kind ?? ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? defaultRule(e.target.value as Recurrence["kind"], dueDate)
+              : undefined
+          )
+        }
+        className="border border-gray-300 rounded px-1 py-0.5"
+      >
+        <option value="">Never</option>
+        <option value="daily">Daily</option>
+        <option value="weekdays">Weekdays</option>
+        <option value="weekly">Weekly on…</option>
+        <option value="interval">Every N days</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value?.kind === "weekly" && (
+        <div className="flex gap-0.5">
+          {WEEKDAY_NAMES.map((name, day) => {
+            const active = value.days.includes(day);
+            return (
+              <button
+                key={name}
+                onClick={() => {
+                  const days = active
+                    ? value.days.filter((d) => d !== day)
+                    : [...value.days, day].sort((a, b) => a - b);
+                  if (days.length) onChange({ ...value, days });
+                }}
+                className={`w-8 py-0.5 text-xs rounded transition-colors ${
+                  active
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-200 hover:bg-gray-300 text-gray-600"
+                }`}
+                aria-pressed={active}
+              >
+                {name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value?.kind === "interval" && (
+        <label className="flex items-center gap-1">
+          every
+          <input
+            type="number"
+            min={1}
+            max={999}
+            value={value.days}
+            onChange={(e) =>
+              Number(e.target.value) >= 1 &&
+              onChange({ ...value, days: Math.round(Number(e.target.value)) })
+            }
+            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+          />
+          days
+        </label>
+      )}
+
+      {value?.kind === "monthly" && (
+        <label className="flex items-center gap-1">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.day}
+            onChange={(e) => {
+              const day = Math.round(Number(e.target.value));
+              if (day >= 1 && day <= 31) onChange({ ...value, day });
+            }}
+            className="w-14 border border-gray-300 rounded px-1 py-0.5"
+          />
+        </label>
+      )}
+    </div>
+  </div>
+);
+
+export default RecurrenceEditor;
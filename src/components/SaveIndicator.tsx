@@ -0,0 +1,55 @@
+import { AlertTriangle, Check, Loader2 } from "lucide-react";
+import React from "react";
+import type { SaveStatus } from "../hooks/usePersistedState";
+
+interface SaveIndicatorProps {
+  status: SaveStatus;
+  error: unknown;
+  onRetry: () => void;
+}
+
+const SaveIndicator: React.FC<SaveIndicatorProps> = ({
+  status,
+  error,
+  onRetry,
+}) => {
+  switch (status) {
+    case "saved":
+      return (
+        <span className="text-xs text-gray-400 flex items-center gap-1">
+          <Check size={12} />
+          Saved
+        </span>
+      );
+    case "unsaved":
+      return (
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-amber-400" />
+          Unsaved changes
+        </span>
+      );
+    case "saving":
+      return (
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <Loader2 size={12} className="animate-spin" />
+          Saving…
+        </span>
+      );
+    case "failed":
+      return (
+        <span
+          className="text-xs text-red-700 bg-red-50 border border-red-300 px-2 py-1 rounded flex items-center gap-2"
+          role="alert"
+          title={String(error)}
+        >
+          <AlertTriangle size={12} />
+          Save failed: your latest changes are not stored
+          <button onClick={onRetry} className="underline hover:text-red-900">
+            Retry
+          </button>
+        </span>
+      );
+  }
+};
+
+export default SaveIndicator;
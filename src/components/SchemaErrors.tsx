@@ -0,0 +1,42 @@
+import { X } from "lucide-react";
+import React from "react";
+import type { SchemaIssue } from "../lib/schema";
+
+interface SchemaErrorsProps {
+  title: string;
+  issues: SchemaIssue[];
+  onDismiss: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 10;
+
+const SchemaErrors: React.FC<SchemaErrorsProps> = ({
+  title,
+  issues,
+  onDismiss,
+}) => (
+  <div className="mb-6 bg-red-50 border border-red-300 text-red-800 p-3 text-sm">
+    <div className="flex justify-between items-center">
+      <p className="font-semibold">{title}</p>
+      <button
+        onClick={onDismiss}
+        className="text-red-400 hover:text-red-600 transition-colors"
+        title="Dismiss"
+      >
+        <X size={16} />
+      </button>
+    </div>
+    <ul className="mt-2 space-y-0.5 font-mono text-xs">
+      {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+        <li key={index}>
+          <span className="font-semibold">{issue.path}</span>: {issue.message}
+        </li>
+      ))}
+      {issues.length > MAX_VISIBLE_ISSUES && (
+        <li>…and {issues.length - MAX_VISIBLE_ISSUES} more</li>
+      )}
+    </ul>
+  </div>
+);
+
+export default SchemaErrors;
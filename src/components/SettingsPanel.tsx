@@ -0,0 +1,144 @@
+import { RotateCcw, X } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import type { SnapshotInfo } from "../lib/storage";
+import type { BoardSettings } from "../types";
+import SyncSettingsSection, {
+  type SyncSettingsSectionProps,
+} from "./SyncSettingsSection";
+
+interface SettingsPanelProps {
+  settings: BoardSettings;
+  onChangeSettings: (changes: Partial<BoardSettings>) => void;
+  sync: SyncSettingsSectionProps;
+  storageName: string;
+  supportsSnapshots: boolean;
+  listSnapshots: () => Promise<SnapshotInfo[]>;
+  onRestoreSnapshot: (day: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSize = (size: number) =>
+  size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onChangeSettings,
+  sync,
+  storageName,
+  supportsSnapshots,
+  listSnapshots,
+  onRestoreSnapshot,
+  onClose,
+}) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots().then(
+      (list) => !cancelled && setSnapshots(list),
+      (err) => !cancelled && setError(`Could not list snapshots: ${err}`)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [listSnapshots]);
+
+  const restore = async (day: string) => {
+    try {
+      await onRestoreSnapshot(day);
+      onClose();
+    } catch (err) {
+      setError(`Could not restore the snapshot from ${day}: ${err}`);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-2xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label="Settings"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Settings</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-3 space-y-2 border-b border-gray-300">
+          <h3 className="text-sm font-semibold text-gray-700">WIP limits</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.enforceWipLimits}
+              onChange={(e) =>
+                onChangeSettings({ enforceWipLimits: e.target.checked })
+              }
+            />
+            Don't let cards be added or moved into a column at its limit
+          </label>
+          <p className="text-xs text-gray-500">
+            Set a limit from the count next to a column's title. Columns over
+            their limit are highlighted either way.
+          </p>
+        </div>
+
+        <SyncSettingsSection {...sync} />
+
+        <div className="p-3 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-700">
+            Daily snapshots
+          </h3>
+          <p className="text-xs text-gray-500">
+            Your board is stored in {storageName}.{" "}
+            {supportsSnapshots
+              ? "A snapshot of each day's last save is kept for two weeks."
+              : "This browser doesn't support snapshots."}
+          </p>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          {supportsSnapshots && snapshots?.length === 0 && (
+            <p className="text-sm text-gray-500">No snapshots yet.</p>
+          )}
+          {snapshots && snapshots.length > 0 && (
+            <ul className="divide-y divide-gray-200 border border-gray-200">
+              {snapshots.map((snapshot) => (
+                <li
+                  key={snapshot.day}
+                  className="flex items-center gap-3 p-2 text-sm"
+                >
+                  <span className="font-semibold text-gray-800 w-28">
+                    {snapshot.day}
+                  </span>
+                  <span className="flex-1 text-gray-500 text-xs">
+                    Saved {new Date(snapshot.savedAt).toLocaleTimeString()} ·{" "}
+                    {formatSize(snapshot.size)}
+                  </span>
+                  <button
+                    onClick={() => restore(snapshot.day)}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-1 rounded flex items-center gap-1 text-xs transition-colors"
+                  >
+                    <RotateCcw size={12} />
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,43 @@
+import { AlarmClock, X } from "lucide-react";
+import React from "react";
+import { cardCount } from "../lib/board";
+import type { Task } from "../types";
+
+interface SnoozeBannerProps {
+  tasks: Task[];
+  onDismiss: () => void;
+}
+
+/** Snoozed cards that came back to "🔥 Current" today. */
+const SnoozeBanner: React.FC<SnoozeBannerProps> = ({ tasks, onDismiss }) => (
+  <div
+    className="mb-6 bg-blue-50 border border-blue-300 text-blue-900 p-3 text-sm flex items-start gap-3"
+    role="status"
+  >
+    <AlarmClock size={16} className="mt-0.5 shrink-0" />
+    <div className="flex-1 min-w-0">
+      <p className="font-semibold">
+        {tasks.length === 1
+          ? "A snoozed card is"
+          : `${cardCount(tasks.length)} are`}{" "}
+        back in Current today:
+      </p>
+      <ul className="mt-1 list-disc list-inside">
+        {tasks.map((task) => (
+          <li key={task.id} className="truncate">
+            {task.title}
+          </li>
+        ))}
+      </ul>
+    </div>
+    <button
+      onClick={onDismiss}
+      className="text-blue-500 hover:text-blue-700 transition-colors"
+      title="Dismiss"
+    >
+      <X size={16} />
+    </button>
+  </div>
+);
+
+export default SnoozeBanner;
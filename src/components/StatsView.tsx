@@ -0,0 +1,156 @@
+import { X } from "lucide-react";
+import React from "react";
+import { formatDueDate } from "../lib/dates";
+import { computeStats, formatDuration, type CountBucket } from "../lib/stats";
+import type { BoardData } from "../types";
+
+interface StatsViewProps {
+  board: BoardData;
+  onClose: () => void;
+}
+
+const BarChart: React.FC<{
+  buckets: CountBucket[];
+  label: (key: string) => string;
+}> = ({ buckets, label }) => {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {buckets.map((bucket) => (
+        <div
+          key={bucket.key}
+          className="flex-1 flex flex-col items-center justify-end h-full"
+          title={`${label(bucket.key)}: ${bucket.count} completed`}
+        >
+          <span className="text-xs text-gray-500">{bucket.count || ""}</span>
+          <div
+            className="w-full bg-blue-400"
+            style={{ height: `${(bucket.count / max) * 100}%` }}
+          />
+          <span className="text-[10px] text-gray-500 mt-1 whitespace-nowrap">
+            {label(bucket.key)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatsView: React.FC<StatsViewProps> = ({ board, onClose }) => {
+  const stats = computeStats(board);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-5xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label="Statistics"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Statistics</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-3 grid grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Completed per day
+            </h3>
+            <BarChart
+              buckets={stats.perDay}
+              label={(key) => formatDueDate(key)}
+            />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Completed per week
+            </h3>
+            <BarChart
+              buckets={stats.perWeek}
+              label={(key) => key.split("-")[1]}
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              Average time to complete
+            </h3>
+            {stats.cycleTimes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Complete a few cards to see how long each kind takes.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {stats.cycleTimes.map((entry) => (
+                    <tr
+                      key={entry.columnType}
+                      className="border-b border-gray-100"
+                    >
+                      <td className="py-1 text-gray-800">{entry.columnType}</td>
+                      <td className="py-1 text-gray-600">
+                        {formatDuration(entry.averageMs)}
+                      </td>
+                      <td className="py-1 text-xs text-gray-400 text-right">
+                        {entry.count} {entry.count === 1 ? "card" : "cards"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {stats.aging.map((section) => (
+              <div key={section.sectionId}>
+                <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                  Waiting in {section.title}
+                  {section.averageMs !== null && (
+                    <span className="font-normal text-gray-500">
+                      {" "}
+                      · {formatDuration(section.averageMs)} on average
+                    </span>
+                  )}
+                </h3>
+                <ul className="text-sm space-y-0.5">
+                  {section.tasks.slice(0, 5).map(({ task, column, ageMs }) => (
+                    <li key={task.id} className="flex gap-2">
+                      <span className="w-16 text-gray-500">
+                        {formatDuration(ageMs)}
+                      </span>
+                      <span className="flex-1 truncate text-gray-800">
+                        {task.title}
+                      </span>
+                      <span className="text-xs text-gray-400">{column}</span>
+                    </li>
+                  ))}
+                </ul>
+                {section.untracked > 0 && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    {section.untracked} older{" "}
+                    {section.untracked === 1 ? "card has" : "cards have"} no
+                    timestamps yet.
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsView;
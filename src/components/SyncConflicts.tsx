@@ -0,0 +1,52 @@
+import { X } from "lucide-react";
+import React from "react";
+import type { MergeConflict } from "../lib/merge";
+
+interface SyncConflictsProps {
+  conflicts: MergeConflict[];
+  onUseTheirs: (conflict: MergeConflict) => void;
+  onDismiss: (conflict: MergeConflict) => void;
+}
+
+/**
+ * Cards that were changed here and in another tab, or on another device
+ * through the sync server, at the same time.
+ */
+const SyncConflicts: React.FC<SyncConflictsProps> = ({
+  conflicts,
+  onUseTheirs,
+  onDismiss,
+}) => (
+  <div className="mb-6 bg-amber-50 border border-amber-300 text-amber-900 p-3 text-sm">
+    <p className="font-semibold">
+      {conflicts.length === 1 ? "A card was" : `${conflicts.length} cards were`}{" "}
+      also changed in another tab or on another device. This version was kept.
+    </p>
+    <ul className="mt-2 space-y-1">
+      {conflicts.map((conflict) => (
+        <li key={conflict.taskId} className="flex items-center gap-3">
+          <span className="flex-1 truncate">
+            <span className="font-semibold">{conflict.title}</span>
+            {!conflict.local && " (deleted here)"}
+            {!conflict.remote && " (deleted on the other side)"}
+          </span>
+          <button
+            onClick={() => onUseTheirs(conflict)}
+            className="bg-amber-200 hover:bg-amber-300 px-2 py-0.5 rounded transition-colors"
+          >
+            {conflict.remote ? "Use the other version" : "Delete it here too"}
+          </button>
+          <button
+            onClick={() => onDismiss(conflict)}
+            className="text-amber-500 hover:text-amber-700 transition-colors"
+            title="Keep this version"
+          >
+            <X size={16} />
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default SyncConflicts;
@@ -0,0 +1,69 @@
+import { AlertTriangle, Cloud, CloudOff, Loader2 } from "lucide-react";
+import React from "react";
+import type { SyncStatus } from "../hooks/useBoardSync";
+
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  error: unknown;
+  lastSyncedAt: string | null;
+  onRetry: () => void;
+}
+
+const SyncIndicator: React.FC<SyncIndicatorProps> = ({
+  status,
+  error,
+  lastSyncedAt,
+  onRetry,
+}) => {
+  switch (status) {
+    case "off":
+      return null;
+    case "synced":
+      return (
+        <span
+          className="text-xs text-gray-400 flex items-center gap-1"
+          title={
+            lastSyncedAt
+              ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}`
+              : undefined
+          }
+        >
+          <Cloud size={12} />
+          Synced
+        </span>
+      );
+    case "syncing":
+      return (
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <Loader2 size={12} className="animate-spin" />
+          Syncing…
+        </span>
+      );
+    case "offline":
+      return (
+        <span
+          className="text-xs text-gray-500 flex items-center gap-1"
+          title={String(error)}
+        >
+          <CloudOff size={12} />
+          Offline: changes sync when the server is back
+        </span>
+      );
+    case "failed":
+      return (
+        <span
+          className="text-xs text-red-700 bg-red-50 border border-red-300 px-2 py-1 rounded flex items-center gap-2"
+          role="alert"
+          title={String(error)}
+        >
+          <AlertTriangle size={12} />
+          Sync failed
+          <button onClick={onRetry} className="underline hover:text-red-900">
+            Retry
+          </button>
+        </span>
+      );
+  }
+};
+
+export default SyncIndicator;
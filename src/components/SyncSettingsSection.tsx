@@ -0,0 +1,168 @@
+import { Plus, RefreshCw } from "lucide-react";
+import React, { useState } from "react";
+import type { SyncStatus } from "../hooks/useBoardSync";
+import {
+  serverUrlError,
+  type RemoteBoardSummary,
+  type SyncSettings,
+} from "../lib/sync";
+
+export interface SyncSettingsSectionProps {
+  settings: SyncSettings;
+  onChange: (changes: Partial<SyncSettings>) => void;
+  status: SyncStatus;
+  error: unknown;
+  onSyncNow: () => void;
+  /** Boards on the server that this browser doesn't have. */
+  listRemoteBoards: () => Promise<RemoteBoardSummary[]>;
+  onAddRemoteBoard: (board: RemoteBoardSummary) => Promise<void>;
+}
+
+const button =
+  "bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-1 rounded flex items-center gap-1 text-xs transition-colors";
+
+const STATUS_TEXT: Record<SyncStatus, string> = {
+  off: "Sync is off.",
+  syncing: "Syncing…",
+  synced: "This board is up to date with the server.",
+  offline: "Can't reach the server. Changes are kept here and sync later.",
+  failed: "The last sync failed.",
+};
+
+/** The sync server settings, shared by every board in this browser. */
+const SyncSettingsSection: React.FC<SyncSettingsSectionProps> = ({
+  settings,
+  onChange,
+  status,
+  error,
+  onSyncNow,
+  listRemoteBoards,
+  onAddRemoteBoard,
+}) => {
+  const [remoteBoards, setRemoteBoards] = useState<RemoteBoardSummary[] | null>(
+    null
+  );
+  const [listError, setListError] = useState<string | null>(null);
+  const [urlError, setUrlError] = useState(() =>
+    serverUrlError(settings.serverUrl)
+  );
+
+  const saveServerUrl = (value: string) => {
+    const error = serverUrlError(value);
+    setUrlError(error);
+    if (!error) onChange({ serverUrl: value });
+  };
+
+  const findBoards = async () => {
+    try {
+      setListError(null);
+      setRemoteBoards(await listRemoteBoards());
+    } catch (err) {
+      setListError(`Could not list the server's boards: ${err}`);
+    }
+  };
+
+  const addBoard = async (board: RemoteBoardSummary) => {
+    try {
+      await onAddRemoteBoard(board);
+      setRemoteBoards(
+        (current) => current?.filter((b) => b.id !== board.id) ?? null
+      );
+    } catch (err) {
+      setListError(`Could not add ${board.name}: ${err}`);
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-2 border-b border-gray-300">
+      <h3 className="text-sm font-semibold text-gray-700">Sync</h3>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+        />
+        Sync boards with a server
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          defaultValue={settings.serverUrl}
+          onBlur={(e) => saveServerUrl(e.target.value.trim())}
+          placeholder="http://localhost:8787"
+          aria-label="Server address"
+          aria-invalid={!!urlError}
+          className={`flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+            urlError ? "border-red-400" : "border-gray-300"
+          }`}
+        />
+        <input
+          type="password"
+          defaultValue={settings.token}
+          onBlur={(e) => onChange({ token: e.target.value })}
+          placeholder="Token (optional)"
+          aria-label="Server token"
+          className="w-40 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+      {urlError && <p className="text-sm text-red-700">{urlError}</p>}
+      <p className="text-xs text-gray-500">
+        Start the server with <code>pnpm sync-server</code>. Boards are edited
+        here as usual and merged card by card with the other devices; cards
+        changed on both show up as conflicts.
+      </p>
+      {settings.enabled && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span
+              className={`flex-1 ${status === "failed" ? "text-red-700" : ""}`}
+              title={error ? String(error) : undefined}
+            >
+              {STATUS_TEXT[status]}
+              {status === "failed" && error ? ` ${error}` : ""}
+            </span>
+            <button onClick={onSyncNow} className={button}>
+              <RefreshCw size={12} />
+              Sync now
+            </button>
+            <button onClick={() => void findBoards()} className={button}>
+              Find boards on the server
+            </button>
+          </div>
+          {listError && <p className="text-sm text-red-700">{listError}</p>}
+          {remoteBoards?.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Every board on the server is already here.
+            </p>
+          )}
+          {remoteBoards && remoteBoards.length > 0 && (
+            <ul className="divide-y divide-gray-200 border border-gray-200">
+              {remoteBoards.map((board) => (
+                <li
+                  key={board.id}
+                  className="flex items-center gap-3 p-2 text-sm"
+                >
+                  <span className="flex-1 font-semibold text-gray-800">
+                    {board.name}
+                  </span>
+                  <span className="text-gray-500 text-xs">
+                    Updated {new Date(board.updatedAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => void addBoard(board)}
+                    className={button}
+                  >
+                    <Plus size={12} />
+                    Add to this browser
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettingsSection;
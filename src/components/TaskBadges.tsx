@@ -0,0 +1,76 @@
+import {
+  AlarmClock,
+  AlignLeft,
+  Calendar,
+  CheckSquare,
+  Repeat,
+} from "lucide-react";
+import React from "react";
+import { formatDueDate, isOverdue } from "../lib/dates";
+import { describeRecurrence } from "../lib/recurrence";
+import type { Task } from "../types";
+
+/**
+ * Small indicators under a card title: due date, recurrence, snooze, notes
+ * and checklist.
+ */
+const TaskBadges: React.FC<{ task: Task }> = ({ task }) => {
+  const checklist = task.checklist ?? [];
+  const done = checklist.filter((item) => item.done).length;
+  const overdue = !task.completed && isOverdue(task.dueDate);
+
+  if (
+    !task.dueDate &&
+    !task.recurrence &&
+    !task.snoozedUntil &&
+    !task.description &&
+    checklist.length === 0
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-1 ml-6 text-xs text-gray-500">
+      {task.dueDate && (
+        <span
+          className={`flex items-center gap-1 px-1 rounded ${
+            overdue ? "bg-red-100 text-red-600" : ""
+          }`}
+          title={overdue ? "Overdue" : "Due date"}
+        >
+          <Calendar size={11} />
+          {formatDueDate(task.dueDate)}
+        </span>
+      )}
+      {task.recurrence && (
+        <span title={describeRecurrence(task.recurrence)}>
+          <Repeat size={11} />
+        </span>
+      )}
+      {task.snoozedUntil && (
+        <span className="flex items-center gap-1" title="Snoozed until">
+          <AlarmClock size={11} />
+          {formatDueDate(task.snoozedUntil)}
+        </span>
+      )}
+      {task.description && (
+        <span title="Has notes">
+          <AlignLeft size={11} />
+        </span>
+      )}
+      {checklist.length > 0 && (
+        <span
+          className={`flex items-center gap-1 px-1 rounded ${
+            done === checklist.length ? "bg-green-100 text-green-600" : ""
+          }`}
+          title="Checklist"
+        >
+          <CheckSquare size={11} />
+          {done}/{checklist.length}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TaskBadges;
@@ -0,0 +1,276 @@
+import { Plus, Trash2, X } from "lucide-react";
+import React, { useState } from "react";
+import type { SnoozeTarget } from "../lib/board";
+import { formatDueDate, toDateKey } from "../lib/dates";
+import { createId } from "../lib/ids";
+import { LABEL_CLASSES } from "../lib/labels";
+import { LABEL_COLORS, type ChecklistItem, type Task } from "../types";
+import MarkdownPreview from "./MarkdownPreview";
+import RecurrenceEditor from "./RecurrenceEditor";
+
+interface TaskDetailsProps {
+  task: Task;
+  location: string;
+  /** Icebox and Backlog, when the board has them. */
+  snoozeTargets: { target: SnoozeTarget; title: string }[];
+  onChange: (changes: Partial<Omit<Task, "id">>) => void;
+  onSnooze: (target: SnoozeTarget, until: string) => void;
+  onClose: () => void;
+}
+
+const daysFromNow = (days: number) => {
+  const today = new Date();
+  return toDateKey(
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() + days)
+  );
+};
+
+const TaskDetails: React.FC<TaskDetailsProps> = ({
+  task,
+  location,
+  snoozeTargets,
+  onChange,
+  onSnooze,
+  onClose,
+}) => {
+  const [editingDescription, setEditingDescription] = useState(
+    !task.description
+  );
+  const [newItem, setNewItem] = useState("");
+  const [snoozeUntil, setSnoozeUntil] = useState(daysFromNow(7));
+  const checklist = task.checklist ?? [];
+  const labels = task.labels ?? [];
+
+  const updateChecklist = (next: ChecklistItem[]) =>
+    onChange({ checklist: next.length ? next : undefined });
+
+  const addChecklistItem = () => {
+    if (!newItem.trim()) return;
+    updateChecklist([
+      ...checklist,
+      { id: createId("item"), text: newItem.trim(), done: false },
+    ]);
+    setNewItem("");
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-2xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label={`Details for ${task.title}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-start gap-4 p-3 border-b border-gray-300">
+          <div className="flex-1">
+            <input
+              type="text"
+              defaultValue={task.title}
+              onBlur={(e) =>
+                e.target.value.trim() && onChange({ title: e.target.value })
+              }
+              className="w-full text-lg font-bold text-gray-800 bg-transparent border-b-2 border-transparent focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">{location}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-3 space-y-4">
+          <div className="flex flex-wrap gap-6">
+            <label className="text-sm text-gray-600 flex flex-col gap-1">
+              <span className="font-semibold text-gray-700">Due date</span>
+              <input
+                type="date"
+                value={task.dueDate ?? ""}
+                onChange={(e) =>
+                  onChange({ dueDate: e.target.value || undefined })
+                }
+                className="border border-gray-300 rounded px-1 py-0.5"
+              />
+            </label>
+
+            <RecurrenceEditor
+              value={task.recurrence}
+              dueDate={task.dueDate}
+              onChange={(recurrence) => onChange({ recurrence })}
+            />
+
+            <div className="text-sm text-gray-600 flex flex-col gap-1">
+              <span className="font-semibold text-gray-700">Labels</span>
+              <div className="flex gap-1">
+                {LABEL_COLORS.map((color) => {
+                  const active = labels.includes(color);
+                  return (
+                    <button
+                      key={color}
+                      onClick={() => {
+                        const next = active
+                          ? labels.filter((label) => label !== color)
+                          : LABEL_COLORS.filter(
+                              (c) => c === color || labels.includes(c)
+                            );
+                        onChange({ labels: next.length ? next : undefined });
+                      }}
+                      className={`w-7 h-6 rounded ${LABEL_CLASSES[color]} ${
+                        active
+                          ? "ring-2 ring-offset-1 ring-gray-700"
+                          : "opacity-40 hover:opacity-70"
+                      } transition-all`}
+                      title={color}
+                      aria-pressed={active}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+
+            {snoozeTargets.length > 0 && (
+              <div className="text-sm text-gray-600 flex flex-col gap-1">
+                <span className="font-semibold text-gray-700">Snooze</span>
+                {task.snoozedUntil ? (
+                  <div className="flex items-center gap-2">
+                    <span>Until {formatDueDate(task.snoozedUntil)}</span>
+                    <button
+                      onClick={() => onChange({ snoozedUntil: undefined })}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-0.5 rounded text-xs transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="date"
+                      value={snoozeUntil}
+                      min={daysFromNow(1)}
+                      onChange={(e) => setSnoozeUntil(e.target.value)}
+                      aria-label="Snooze until"
+                      className="border border-gray-300 rounded px-1 py-0.5"
+                    />
+                    {snoozeTargets.map(({ target, title }) => (
+                      <button
+                        key={target}
+                        onClick={() => onSnooze(target, snoozeUntil)}
+                        disabled={!snoozeUntil}
+                        className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-600 px-2 py-0.5 rounded text-xs transition-colors"
+                        title={`Move to ${title} until then`}
+                      >
+                        {title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-sm font-semibold text-gray-700">Notes</span>
+              {task.description && (
+                <button
+                  onClick={() => setEditingDescription(!editingDescription)}
+                  className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                >
+                  {editingDescription ? "Preview" : "Edit"}
+                </button>
+              )}
+            </div>
+            {editingDescription ? (
+              <textarea
+                defaultValue={task.description ?? ""}
+                onChange={(e) =>
+                  onChange({ description: e.target.value || undefined })
+                }
+                placeholder="Add notes… Markdown is supported."
+                className="w-full p-2 border border-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                rows={6}
+              />
+            ) : (
+              <div
+                className="p-2 border border-transparent hover:border-gray-200 cursor-text"
+                onClick={() => setEditingDescription(true)}
+              >
+                <MarkdownPreview source={task.description ?? ""} />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <span className="text-sm font-semibold text-gray-700">
+              Checklist
+              {checklist.length > 0 &&
+                ` (${checklist.filter((item) => item.done).length}/${
+                  checklist.length
+                })`}
+            </span>
+            <ul className="mt-1 space-y-1">
+              {checklist.map((item) => (
+                <li key={item.id} className="flex items-center gap-2 group">
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    onChange={() =>
+                      updateChecklist(
+                        checklist.map((i) =>
+                          i.id === item.id ? { ...i, done: !i.done } : i
+                        )
+                      )
+                    }
+                    className="w-4 h-4 accent-gray-500 cursor-pointer"
+                  />
+                  <span
+                    className={`flex-1 text-sm ${
+                      item.done ? "line-through text-gray-500" : "text-gray-800"
+                    }`}
+                  >
+                    {item.text}
+                  </span>
+                  <button
+                    onClick={() =>
+                      updateChecklist(checklist.filter((i) => i.id !== item.id))
+                    }
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-all"
+                    title="Remove item"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={newItem}
+                onChange={(e) => setNewItem(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addChecklistItem()}
+                placeholder="Add an item"
+                className="flex-1 p-1 border border-gray-200 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                onClick={addChecklistItem}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+                title="Add item"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskDetails;
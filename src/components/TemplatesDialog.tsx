@@ -0,0 +1,187 @@
+import { Trash2, X } from "lucide-react";
+import React, { useState } from "react";
+import { sectionChoices, type Template } from "../lib/templates";
+import type { Section } from "../types";
+
+interface TemplatesDialogProps {
+  templates: Template[];
+  onSaveBoard: (name: string) => void;
+  onNewBoard: (template: Template) => void;
+  onReset: (template: Template) => void;
+  onAddSection: (section: Section) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const button =
+  "bg-gray-200 hover:bg-gray-300 text-gray-600 px-2 py-1 rounded text-xs transition-colors";
+
+const layoutSummary = (template: Template) =>
+  template.sections
+    .map(
+      (section) =>
+        `${section.title} (${section.columns.map((col) => col.title).join(", ")})`
+    )
+    .join(" · ");
+
+const TemplatesDialog: React.FC<TemplatesDialogProps> = ({
+  templates,
+  onSaveBoard,
+  onNewBoard,
+  onReset,
+  onAddSection,
+  onDelete,
+  onClose,
+}) => {
+  const [name, setName] = useState("");
+  const [resetting, setResetting] = useState<string | null>(null);
+  const boardTemplates = templates.filter((t) => t.kind === "board");
+
+  const deleteButton = (template: Template) =>
+    !template.builtIn && (
+      <button
+        onClick={() => onDelete(template.id)}
+        className="text-gray-400 hover:text-red-600 p-1"
+        title="Delete template"
+      >
+        <Trash2 size={14} />
+      </button>
+    );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-start justify-center p-6 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-full max-w-2xl max-h-full overflow-auto border border-gray-300 shadow-lg"
+        role="dialog"
+        aria-label="Templates"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex justify-between items-center p-3 border-b border-gray-300">
+          <h2 className="text-lg font-bold text-gray-800">Templates</h2>
+          <button
+            onClick={onClose}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-600 p-1.5 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <form
+          className="p-3 flex gap-2 border-b border-gray-300"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!name.trim()) return;
+            onSaveBoard(name);
+            setName("");
+          }}
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Template name"
+            aria-label="Template name"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white px-3 py-1 rounded text-sm"
+          >
+            Save this board as a template
+          </button>
+        </form>
+
+        <div className="p-3 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-700">Boards</h3>
+          <ul className="divide-y divide-gray-200">
+            {boardTemplates.map((template) => (
+              <li key={template.id} className="py-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm font-medium text-gray-800">
+                    {template.name}
+                    {template.builtIn && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        built-in
+                      </span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => onNewBoard(template)}
+                    className={button}
+                  >
+                    New board
+                  </button>
+                  <button
+                    onClick={() => setResetting(template.id)}
+                    className={button}
+                  >
+                    Reset this board
+                  </button>
+                  {deleteButton(template)}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {layoutSummary(template)}
+                </p>
+                {resetting === template.id && (
+                  <div className="flex items-center gap-2 text-xs text-gray-700 bg-amber-50 border border-amber-200 p-2 rounded">
+                    <span className="flex-1">
+                      Switch this board to the {template.name} layout? Cards
+                      stay in columns with the same name; the rest go to an
+                      Unsorted column.
+                    </span>
+                    <button
+                      onClick={() => onReset(template)}
+                      className="bg-amber-500 hover:bg-amber-600 text-white px-2 py-1 rounded"
+                    >
+                      Reset
+                    </button>
+                    <button
+                      onClick={() => setResetting(null)}
+                      className={button}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <h3 className="text-sm font-semibold text-gray-700 pt-2">Sections</h3>
+          <p className="text-xs text-gray-500">
+            Save a section from the button in its header.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {sectionChoices(templates).map(
+              ({ key, name, section, template }) => (
+                <li key={key} className="py-2 flex items-center gap-2">
+                  <span className="flex-1 text-sm text-gray-800">
+                    {name}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {section.columns.map((col) => col.title).join(", ")}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onAddSection(section)}
+                    className={button}
+                  >
+                    Add section
+                  </button>
+                  {template.kind === "section" && deleteButton(template)}
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesDialog;
@@ -0,0 +1,49 @@
+import { X } from "lucide-react";
+import React, { useEffect } from "react";
+
+export interface ToastMessage {
+  id: number;
+  message: string;
+  actionLabel?: string;
+}
+
+interface ToastProps {
+  toast: ToastMessage;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 5000;
+
+const Toast: React.FC<ToastProps> = ({ toast, onAction, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-sm px-4 py-2 rounded-lg shadow-lg flex items-center gap-3 z-50">
+      <span>{toast.message}</span>
+      {toast.actionLabel && onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+          className="font-semibold text-blue-300 hover:text-blue-200 transition-colors"
+        >
+          {toast.actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-200 transition-colors"
+        title="Dismiss"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
@@ -0,0 +1,25 @@
+import { RefreshCw } from "lucide-react";
+import React from "react";
+
+interface UpdatePromptProps {
+  onReload: () => void;
+}
+
+/** Offers the build that the service worker has installed in the background. */
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload }) => (
+  <div
+    className="fixed top-4 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-sm px-4 py-2 rounded-lg shadow-lg flex items-center gap-3 z-50"
+    role="status"
+  >
+    <span>A new version of FocusTask is available.</span>
+    <button
+      onClick={onReload}
+      className="font-semibold text-blue-300 hover:text-blue-200 transition-colors flex items-center gap-1"
+    >
+      <RefreshCw size={14} />
+      Reload
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+
+interface WipLimitEditorProps {
+  open: number;
+  limit: number | undefined;
+  onChange: (limit: number | undefined) => void;
+}
+
+/** The column's open card count against its limit; click to edit the limit. */
+const WipLimitEditor: React.FC<WipLimitEditorProps> = ({
+  open,
+  limit,
+  onChange,
+}) => {
+  const [editing, setEditing] = useState(false);
+
+  const commit = (value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    const next = parsed > 0 ? parsed : undefined;
+    if (next !== limit) onChange(next);
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <input
+        type="number"
+        min={1}
+        defaultValue={limit ?? ""}
+        placeholder="–"
+        aria-label="WIP limit"
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit(e.currentTarget.value);
+          if (e.key === "Escape") setEditing(false);
+        }}
+        className="w-12 text-xs text-gray-700 bg-transparent border-b-2 border-blue-500 focus:outline-none"
+        autoFocus
+      />
+    );
+  }
+
+  const over = limit !== undefined && open > limit;
+  return (
+    <button
+      onClick={() => setEditing(true)}
+      className={`flex-none text-xs px-1.5 py-0.5 rounded transition-colors ${
+        over
+          ? "bg-red-100 text-red-700 font-semibold hover:bg-red-200"
+          : limit !== undefined
+            ? "text-gray-500 hover:bg-gray-100"
+            : "text-gray-300 hover:text-gray-500 hover:bg-gray-100"
+      }`}
+      title={
+        limit === undefined
+          ? "Set a WIP limit"
+          : `${open} open of ${limit} allowed. Click to change the limit, clear it to remove.`
+      }
+    >
+      {limit === undefined ? "WIP" : `${open}/${limit}`}
+    </button>
+  );
+};
+
+export default WipLimitEditor;
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import type { TaskLocation } from "../lib/board";
+import {
+  adjacentColumn,
+  adjacentSection,
+  focusedTaskIndex,
+  moveFocus,
+  resolveFocus,
+  type BoardFocus,
+  type FocusDirection,
+} from "../lib/navigation";
+import type { Section } from "../types";
+
+export interface KeyboardActions {
+  toggleTask: (focus: BoardFocus & { taskId: string }) => void;
+  editTask: (focus: BoardFocus & { taskId: string }) => void;
+  openTask: (focus: BoardFocus & { taskId: string }) => void;
+  deleteTask: (focus: BoardFocus & { taskId: string }) => void;
+  moveTask: (
+    focus: BoardFocus & { taskId: string },
+    to: TaskLocation,
+    index?: number
+  ) => void;
+  newTask: (location: TaskLocation) => void;
+  focusSearch: () => void;
+}
+
+const DIRECTIONS: Record<string, FocusDirection> = {
+  arrowup: "up",
+  k: "up",
+  arrowdown: "down",
+  j: "down",
+  arrowleft: "left",
+  h: "left",
+  arrowright: "right",
+  l: "right",
+};
+
+const focusSelector = (focus: BoardFocus) =>
+  focus.taskId
+    ? `[data-task-id="${CSS.escape(focus.taskId)}"]`
+    : `[data-column-id="${CSS.escape(focus.columnId)}"]`;
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest(
+    "input:not([type=checkbox]), textarea, select, [contenteditable]"
+  );
+
+/**
+ * Whether keys pressed in `target` are meant for the focused card or column.
+ * Buttons and links elsewhere keep Enter, Delete and friends to themselves.
+ */
+const isOnBoard = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest("[data-task-id], [data-column-id]") &&
+  !target.closest("button, a[href], summary");
+
+/** Nothing has focus, so the arrows can pick up the cursor. */
+const isIdle = (target: EventTarget | null) =>
+  target === document.body || target === document.documentElement;
+
+/**
+ * Keyboard mode for the board: hjkl/arrows move a cursor across sections,
+ * columns and tasks, Shift moves the focused task, Alt reorders it.
+ */
+export const useBoardKeyboard = (
+  sections: Section[],
+  actions: KeyboardActions,
+  enabled: boolean
+) => {
+  const [rawFocus, setFocus] = useState<BoardFocus | null>(null);
+  const focus = resolveFocus(sections, rawFocus);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || isTyping(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      const direction = DIRECTIONS[key];
+      // The cursor is only remembered; act on it while the board has focus
+      const cardFocus = isOnBoard(e.target) ? focus : null;
+      const taskFocus =
+        cardFocus?.taskId != null
+          ? { ...cardFocus, taskId: cardFocus.taskId }
+          : null;
+
+      if (direction && e.altKey) {
+        if (!taskFocus || (direction !== "up" && direction !== "down")) return;
+        e.preventDefault();
+        const index = focusedTaskIndex(sections, taskFocus);
+        actions.moveTask(
+          taskFocus,
+          taskFocus,
+          direction === "up" ? Math.max(index - 1, 0) : index + 2
+        );
+      } else if (direction && e.shiftKey) {
+        if (!taskFocus) return;
+        e.preventDefault();
+        const offset = direction === "left" || direction === "up" ? -1 : 1;
+        const to =
+          direction === "left" || direction === "right"
+            ? adjacentColumn(sections, taskFocus, offset)
+            : adjacentSection(sections, taskFocus, offset);
+        if (to) {
+          actions.moveTask(taskFocus, to);
+          setFocus({ ...to, taskId: taskFocus.taskId });
+        }
+      } else if (direction && !e.altKey) {
+        // Arrows on buttons and links elsewhere keep their own meaning
+        if (!isOnBoard(e.target) && !isIdle(e.target)) return;
+        e.preventDefault();
+        setFocus(moveFocus(sections, focus, direction));
+      } else if (key === "x" && taskFocus) {
+        e.preventDefault();
+        actions.toggleTask(taskFocus);
+      } else if ((key === "e" || key === "enter") && taskFocus) {
+        e.preventDefault();
+        actions.editTask(taskFocus);
+      } else if (key === "o" && taskFocus) {
+        e.preventDefault();
+        actions.openTask(taskFocus);
+      } else if (key === "n" && cardFocus) {
+        e.preventDefault();
+        actions.newTask(cardFocus);
+      } else if ((key === "delete" || key === "backspace") && taskFocus) {
+        e.preventDefault();
+        actions.deleteTask(taskFocus);
+      } else if (key === "/") {
+        e.preventDefault();
+        actions.focusSearch();
+      } else if (key === "escape" && focus) {
+        setFocus(null);
+        (document.activeElement as HTMLElement | null)?.blur();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Move DOM focus along with the cursor so screen readers follow it
+  const focusKey = focus && focusSelector(focus);
+  useEffect(() => {
+    if (!focusKey || isTyping(document.activeElement)) return;
+    const element = document.querySelector<HTMLElement>(focusKey);
+    if (element && !element.contains(document.activeElement)) {
+      element.focus();
+    }
+  }, [focusKey]);
+
+  return { focus, setFocus };
+};
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  boardReducer,
+  DEFAULT_BOARD,
+  describeAction,
+  selectDueSnoozed,
+  type BoardAction,
+} from "../lib/board";
+import { toDateKey } from "../lib/dates";
+import { dedupeIds } from "../lib/ids";
+import { mergeBoards, type MergeConflict } from "../lib/merge";
+import { parseBoardData, SchemaError, validateArchive } from "../lib/schema";
+import { defaultBackend } from "../lib/storage";
+import type { SyncServer } from "../lib/sync";
+import type { BoardData, Task } from "../types";
+import { useBoardSync } from "./useBoardSync";
+import { usePersistedState } from "./usePersistedState";
+import { useUndoHistory } from "./useUndoHistory";
+
+const BOARD_STORAGE_KEY = "trello-sections";
+const HISTORY_STORAGE_KEY = "trello-history";
+const LEGACY_ARCHIVE_KEY = "trello-archive";
+
+/** The board that existed before there were several keeps the old keys. */
+export const FIRST_BOARD_ID = "default";
+
+const keyFor = (prefix: string, boardId: string) =>
+  boardId === FIRST_BOARD_ID ? prefix : `${prefix}:${boardId}`;
+
+export const boardStorageKey = (boardId: string) =>
+  keyFor(BOARD_STORAGE_KEY, boardId);
+
+export const historyStorageKey = (boardId: string) =>
+  keyFor(HISTORY_STORAGE_KEY, boardId);
+
+export const parseStoredBoard = (raw: unknown): BoardData => {
+  const result = parseBoardData(raw);
+  if (!result.ok) throw new SchemaError(result.errors);
+  let board = result.data;
+  if (result.migratedFrom === 1) {
+    // Before version 2 the weekly archive lived under its own key
+    const legacyArchive = window.localStorage.getItem(LEGACY_ARCHIVE_KEY);
+    if (legacyArchive) {
+      const archive = JSON.parse(legacyArchive);
+      if (validateArchive(archive).length === 0) {
+        window.localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+        board = { ...board, archive };
+      }
+    }
+  }
+  // Boards saved before ids were random can contain duplicates
+  return dedupeIds(board).board;
+};
+
+/**
+ * The persisted board `boardId` plus an undoable `dispatch`. Every change to the board
+ * goes through `boardReducer`. Changes made in other tabs are merged in as
+ * they happen, and so are the sync server's when `sync.server` is set; tasks
+ * edited on both sides end up in `conflicts`. Snoozed tasks
+ * that came back to "🔥 Current" while the board was open are in `woken`.
+ *
+ * The board is stored through `defaultBackend`, which also keeps the daily
+ * snapshots offered by `listSnapshots` and `restoreSnapshot`.
+ */
+export const useBoardStore = (
+  boardId: string,
+  sync: { name: string; server: SyncServer | null }
+) => {
+  const storageKey = boardStorageKey(boardId);
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+  const [woken, setWoken] = useState<Task[]>([]);
+
+  const addConflicts = (added: MergeConflict[]) =>
+    setConflicts((current) => [
+      ...current.filter((c) => !added.some((a) => a.taskId === c.taskId)),
+      ...added,
+    ]);
+  const stored = usePersistedState<BoardData>(storageKey, DEFAULT_BOARD, {
+    backend: defaultBackend,
+    snapshot: true,
+    parse: parseStoredBoard,
+    merge: (remote, base, local) => {
+      const result = mergeBoards(base, local, remote);
+      if (result.conflicts.length > 0) addConflicts(result.conflicts);
+      return result.board;
+    },
+  });
+  const setBoard = stored.setValue;
+  const history = useUndoHistory(historyStorageKey(boardId), setBoard);
+  const syncing = useBoardSync({
+    boardId,
+    name: sync.name,
+    server: sync.server,
+    board: stored.value,
+    loaded: stored.loaded,
+    setBoard,
+    onConflicts: addConflicts,
+  });
+
+  const dispatch = (action: BoardAction) => {
+    const change = describeAction(action);
+    const update = (present: BoardData) => boardReducer(present, action);
+    if (change) {
+      history.commit(update, change);
+    } else {
+      setBoard(update);
+    }
+  };
+
+  const listSnapshots = useCallback(
+    () => defaultBackend.listSnapshots(storageKey),
+    [storageKey]
+  );
+
+  /** Replaces the board with a daily snapshot, as one undoable change. */
+  const restoreSnapshot = async (day: string) => {
+    const item = await defaultBackend.loadSnapshot(storageKey, day);
+    if (!item) throw new Error(`No snapshot for ${day}`);
+    dispatch({
+      type: "replaceBoard",
+      board: parseStoredBoard(JSON.parse(item)),
+      label: `Snapshot from ${day} restored`,
+    });
+  };
+
+  const dismissConflict = (taskId: string) =>
+    setConflicts((current) => current.filter((c) => c.taskId !== taskId));
+
+  // Re-render every minute so date-based bookkeeping notices a new day
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const id = window.setInterval(() => setTick((tick) => tick + 1), 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const sections = stored.value.sections;
+  const today = toDateKey(new Date());
+  useEffect(() => {
+    // Note the cards due back before wakeSnoozed below moves them
+    const due = selectDueSnoozed(sections, today).map(({ task }) => task);
+    if (due.length === 0) return;
+    setWoken((current) => [
+      ...current,
+      ...due.filter((task) => !current.some((t) => t.id === task.id)),
+    ]);
+  }, [sections, today]);
+
+  // Date-based bookkeeping runs once the board is loaded and again each day
+  const latestDispatch = useRef(dispatch);
+  useEffect(() => {
+    latestDispatch.current = dispatch;
+  });
+  const loaded = stored.loaded;
+  useEffect(() => {
+    if (!loaded) return;
+    const dispatch = latestDispatch.current;
+    const now = new Date();
+    dispatch({ type: "rollOverWeek", now: now.toISOString() });
+    dispatch({ type: "respawnDue", today });
+    dispatch({ type: "wakeSnoozed", today, at: now.toISOString() });
+  }, [loaded, today]);
+
+  return {
+    board: stored.value,
+    storageKey,
+    dispatch,
+    loaded: stored.loaded,
+    loadError: stored.loadError,
+    saveStatus: stored.saveStatus,
+    saveError: stored.saveError,
+    save: stored.save,
+    storageName: defaultBackend.name,
+    syncStatus: syncing.status,
+    syncError: syncing.error,
+    lastSyncedAt: syncing.lastSyncedAt,
+    syncNow: syncing.syncNow,
+    supportsSnapshots: defaultBackend.supportsSnapshots,
+    listSnapshots,
+    restoreSnapshot,
+    conflicts,
+    dismissConflict,
+    woken,
+    dismissWoken: () => setWoken([]),
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+  };
+};
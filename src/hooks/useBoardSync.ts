@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { mergeBoards, type MergeConflict } from "../lib/merge";
+import {
+  sameBoard,
+  type LiveMessage,
+  type LiveRequest,
+  type SyncServer,
+  type SyncState,
+} from "../lib/sync";
+import {
+  liveUrl,
+  loadSyncState,
+  saveSyncState,
+  syncBoard,
+  SyncError,
+} from "../lib/syncClient";
+import type { BoardData } from "../types";
+
+export type SyncStatus = "off" | "syncing" | "synced" | "offline" | "failed";
+
+interface BoardSyncOptions {
+  boardId: string;
+  name: string;
+  /** Null while sync is turned off. */
+  server: SyncServer | null;
+  board: BoardData;
+  loaded: boolean;
+  /** Applies a merged board to the local store and returns the result. */
+  setBoard: (update: (board: BoardData) => BoardData) => BoardData;
+  onConflicts: (conflicts: MergeConflict[]) => void;
+}
+
+/** Local changes are pushed once the board has been quiet this long. */
+const PUSH_DELAY_MS = 1500;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Keeps one board in sync with the sync server. The local store stays the
+ * source of truth: changes are made offline as usual and pushed when the
+ * server can be reached, and the server's changes are merged in card by card
+ * with `mergeBoards`, against the last revision both sides agreed on. Cards
+ * edited on both sides keep the local version and end up in `onConflicts`.
+ *
+ * Syncs on load, after local changes, when the server announces a push over
+ * its WebSocket and when the browser comes back online.
+ */
+export const useBoardSync = ({
+  boardId,
+  name,
+  server,
+  board,
+  loaded,
+  setBoard,
+  onConflicts,
+}: BoardSyncOptions) => {
+  const [status, setStatus] = useState<SyncStatus>("off");
+  const [error, setError] = useState<unknown>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+
+  const latest = useRef({ name, board, setBoard, onConflicts });
+  useEffect(() => {
+    latest.current = { name, board, setBoard, onConflicts };
+  });
+  /** Undefined until loaded; null when this board never synced. */
+  const state = useRef<SyncState | null | undefined>(undefined);
+  const running = useRef(false);
+  const again = useRef(false);
+
+  const serverUrl = server?.serverUrl ?? "";
+  const token = server?.token ?? "";
+  const active = loaded && !!server;
+
+  const syncOnce = useCallback(async () => {
+    state.current ??= await loadSyncState(boardId, serverUrl);
+    await syncBoard({ serverUrl, token }, boardId, state.current, {
+      name: () => latest.current.name,
+      board: () => latest.current.board,
+      merge: (base, remote) =>
+        latest.current.setBoard((local) => {
+          const result = mergeBoards(base, local, remote);
+          if (result.conflicts.length > 0) {
+            latest.current.onConflicts(result.conflicts);
+          }
+          return result.board;
+        }),
+      agree: async (agreed) => {
+        state.current = agreed;
+        await saveSyncState(boardId, agreed);
+      },
+    });
+  }, [boardId, serverUrl, token]);
+
+  const sync = useCallback(async () => {
+    if (!active) return;
+    if (running.current) {
+      again.current = true;
+      return;
+    }
+    running.current = true;
+    setStatus("syncing");
+    try {
+      do {
+        again.current = false;
+        await syncOnce();
+      } while (again.current);
+      setStatus("synced");
+      setError(null);
+      setLastSyncedAt(new Date().toISOString());
+    } catch (err) {
+      console.error(`Error syncing board "${boardId}":`, err);
+      setError(err);
+      setStatus(
+        err instanceof SyncError && err.status === null ? "offline" : "failed"
+      );
+    } finally {
+      running.current = false;
+    }
+  }, [active, boardId, syncOnce]);
+
+  // What was agreed with one server means nothing to another
+  useEffect(() => {
+    state.current = undefined;
+  }, [serverUrl]);
+
+  // Catch up on load, when the settings change and when back online
+  useEffect(() => {
+    if (!active) {
+      setStatus("off");
+      return;
+    }
+    void sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [active, sync]);
+
+  // Push local changes once they settle
+  useEffect(() => {
+    if (!active || (state.current && sameBoard(board, state.current.base)))
+      return;
+    const timer = window.setTimeout(sync, PUSH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [active, board, sync]);
+
+  // Pull as soon as another device pushes
+  useEffect(() => {
+    if (!active) return;
+    let socket: WebSocket | null = null;
+    let retry: number | undefined;
+    let closed = false;
+
+    const connect = () => {
+      try {
+        socket = new WebSocket(liveUrl({ serverUrl, token }));
+      } catch (err) {
+        console.error(`Error connecting to ${serverUrl}:`, err);
+        setError(err);
+        setStatus("failed");
+        return;
+      }
+      socket.onopen = () => {
+        const subscribe: LiveRequest = {
+          type: "subscribe",
+          boardIds: [boardId],
+        };
+        socket?.send(JSON.stringify(subscribe));
+        // Anything pushed while disconnected was not announced
+        void sync();
+      };
+      socket.onmessage = (event) => {
+        const message: LiveMessage = JSON.parse(event.data);
+        if (
+          message.type === "updated" &&
+          message.board.id === boardId &&
+          message.board.revision !== state.current?.revision
+        ) {
+          void sync();
+        }
+      };
+      socket.onclose = () => {
+        if (!closed) retry = window.setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      window.clearTimeout(retry);
+      socket?.close();
+    };
+  }, [active, boardId, serverUrl, token, sync]);
+
+  return { status, error, lastSyncedAt, syncNow: sync };
+};
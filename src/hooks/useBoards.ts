@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { DEFAULT_BOARD } from "../lib/board";
+import {
+  parseBoardList,
+  uniqueBoardName,
+  type BoardList,
+  type BoardSummary,
+} from "../lib/boards";
+import { createId } from "../lib/ids";
+import { defaultBackend } from "../lib/storage";
+import { removeSyncState } from "../lib/syncClient";
+import type { BoardData } from "../types";
+import {
+  boardStorageKey,
+  FIRST_BOARD_ID,
+  historyStorageKey,
+  parseStoredBoard,
+} from "./useBoardStore";
+import { usePersistedState } from "./usePersistedState";
+
+const BOARD_LIST_KEY = "trello-boards";
+/** Which board this browser opens, kept apart so tabs can differ. */
+const ACTIVE_BOARD_KEY = "trello-active-board";
+
+const DEFAULT_BOARD_LIST: BoardList = {
+  boards: [{ id: FIRST_BOARD_ID, name: "My board" }],
+};
+
+/**
+ * The list of boards, shared with other tabs, and which one this tab shows.
+ * Each board's data lives under its own storage key; see `boardStorageKey`.
+ */
+export const useBoards = () => {
+  const stored = usePersistedState<BoardList>(
+    BOARD_LIST_KEY,
+    DEFAULT_BOARD_LIST,
+    { backend: defaultBackend, parse: parseBoardList }
+  );
+  const boards = stored.value.boards;
+  const [preferredId, setPreferredId] = useState(
+    () => window.localStorage.getItem(ACTIVE_BOARD_KEY) ?? FIRST_BOARD_ID
+  );
+  // Another tab may have deleted the board this one was showing
+  const activeId = boards.some((board) => board.id === preferredId)
+    ? preferredId
+    : boards[0].id;
+
+  const setBoards = (update: (boards: BoardSummary[]) => BoardSummary[]) =>
+    stored.setValue((list) => ({ ...list, boards: update(list.boards) }));
+
+  const switchBoard = (id: string) => {
+    setPreferredId(id);
+    window.localStorage.setItem(ACTIVE_BOARD_KEY, id);
+  };
+
+  /** Reads a board that may not be the one on screen. */
+  const loadBoard = async (id: string): Promise<BoardData> => {
+    const item = await defaultBackend.load(boardStorageKey(id));
+    return item ? parseStoredBoard(JSON.parse(item)) : DEFAULT_BOARD;
+  };
+
+  /**
+   * Adds a board, empty unless `data` is given, and returns its summary.
+   * Boards pulled from the sync server keep the `id` they have there.
+   */
+  const createBoard = async (
+    name: string,
+    data?: BoardData,
+    id = createId("board")
+  ) => {
+    if (data) {
+      await defaultBackend.save(boardStorageKey(id), JSON.stringify(data), {
+        snapshot: true,
+      });
+    }
+    let summary: BoardSummary = { id, name };
+    setBoards((current) => {
+      summary = { id, name: uniqueBoardName(current, name) };
+      return [...current, summary];
+    });
+    return summary;
+  };
+
+  const renameBoard = (id: string, name: string) =>
+    setBoards((current) =>
+      current.map((board) =>
+        board.id === id
+          ? {
+              ...board,
+              name: uniqueBoardName(
+                current.filter((other) => other.id !== id),
+                name
+              ),
+            }
+          : board
+      )
+    );
+
+  /** Removes the board and its stored data; the last board can't go. */
+  const deleteBoard = async (id: string) => {
+    if (boards.length <= 1) return;
+    setBoards((current) => current.filter((board) => board.id !== id));
+    window.sessionStorage.removeItem(historyStorageKey(id));
+    await defaultBackend.remove(boardStorageKey(id));
+    await removeSyncState(id);
+  };
+
+  return {
+    boards,
+    activeId,
+    loaded: stored.loaded,
+    switchBoard,
+    loadBoard,
+    createBoard,
+    renameBoard,
+    deleteBoard,
+  };
+};
+
+export type BoardsApi = ReturnType<typeof useBoards>;
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { StorageBackend } from "../lib/storage";
+
+export type SaveStatus = "saved" | "unsaved" | "saving" | "failed";
+
+interface PersistedStateOptions<T> {
+  backend: StorageBackend;
+  parse?: (raw: unknown) => T;
+  /** Combines another tab's value with ours, given the value both last had. */
+  merge?: (remote: T, base: T, local: T) => T;
+  /** Keep a daily snapshot of the value where the backend can. */
+  snapshot?: boolean;
+}
+
+interface SyncMessage {
+  key: string;
+  value: string;
+  /** What was stored before this save, the common ancestor for merging. */
+  base: string | null;
+}
+
+const SAVE_DELAY_MS = 500;
+const SYNC_CHANNEL = "focustask-sync";
+
+/**
+ * State persisted through a storage backend and kept in sync with other
+ * tabs. Loading is asynchronous: updates before `loaded` are ignored. Saves
+ * are debounced, and `saveStatus` tells whether the latest value is stored.
+ */
+export const usePersistedState = <T>(
+  key: string,
+  initialValue: T,
+  {
+    backend,
+    parse = (raw) => raw as T,
+    merge,
+    snapshot = false,
+  }: PersistedStateOptions<T>
+) => {
+  const [value, setStoredValue] = useState(initialValue);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<unknown>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("saved");
+  const [saveError, setSaveError] = useState<unknown>(null);
+
+  // Updates apply to the latest value, not the one from the last render
+  const latest = useRef(initialValue);
+  const isLoaded = useRef(false);
+  /** The serialized value last known to be in storage. */
+  const persisted = useRef<string | null>(null);
+  const dirty = useRef(false);
+  const timer = useRef<number | undefined>(undefined);
+  const channel = useRef<BroadcastChannel | null>(null);
+  const callbacks = useRef({ initialValue, parse, merge });
+
+  useEffect(() => {
+    callbacks.current = { initialValue, parse, merge };
+  });
+
+  const flush = useCallback(async () => {
+    window.clearTimeout(timer.current);
+    timer.current = undefined;
+    const serialized = JSON.stringify(latest.current);
+    const base = persisted.current;
+    if (serialized === base) {
+      dirty.current = false;
+      setSaveStatus("saved");
+      return;
+    }
+
+    setSaveStatus("saving");
+    try {
+      await backend.save(key, serialized, { snapshot });
+      persisted.current = serialized;
+      channel.current?.postMessage({ key, value: serialized, base });
+      setSaveError(null);
+      // Another change may have come in while this one was being written
+      if (JSON.stringify(latest.current) === serialized) {
+        dirty.current = false;
+        setSaveStatus("saved");
+      } else {
+        setSaveStatus("unsaved");
+      }
+    } catch (error) {
+      console.error(`Error saving "${key}" to ${backend.name}:`, error);
+      setSaveError(error);
+      setSaveStatus("failed");
+    }
+  }, [backend, key, snapshot]);
+
+  const scheduleSave = useCallback(() => {
+    dirty.current = true;
+    setSaveStatus("unsaved");
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, SAVE_DELAY_MS);
+  }, [flush]);
+
+  const setValue = (value: T | ((val: T) => T)): T => {
+    if (!isLoaded.current) return latest.current;
+    const valueToStore =
+      value instanceof Function ? value(latest.current) : value;
+    if (valueToStore === latest.current) return valueToStore;
+    latest.current = valueToStore;
+    setStoredValue(valueToStore);
+    scheduleSave();
+    return valueToStore;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const { initialValue, parse } = callbacks.current;
+
+    const finish = (value: T, error: unknown) => {
+      latest.current = value;
+      isLoaded.current = true;
+      setStoredValue(value);
+      setLoadError(error);
+      setLoaded(true);
+    };
+
+    backend.load(key).then(
+      (item) => {
+        if (cancelled) return;
+        persisted.current = item;
+        try {
+          finish(item ? parse(JSON.parse(item)) : initialValue, null);
+        } catch (error) {
+          console.error(`Error reading "${key}" from ${backend.name}:`, error);
+          // Keep the unreadable data around instead of overwriting it on next save
+          if (item) void backend.save(`${key}-backup`, item);
+          finish(initialValue, error);
+        }
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error(`Error reading "${key}" from ${backend.name}:`, error);
+        finish(initialValue, error);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, key]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const sync = new BroadcastChannel(SYNC_CHANNEL);
+    channel.current = sync;
+
+    sync.onmessage = (e: MessageEvent<SyncMessage>) => {
+      if (e.data.key !== key || !isLoaded.current) return;
+      const { parse, merge } = callbacks.current;
+
+      let remote: T;
+      let base: T;
+      try {
+        remote = parse(JSON.parse(e.data.value));
+        base = e.data.base ? parse(JSON.parse(e.data.base)) : latest.current;
+      } catch (error) {
+        console.error(`Error reading "${key}" from another tab:`, error);
+        return;
+      }
+
+      // The other tab already stored its value; only save what it lacks
+      persisted.current = e.data.value;
+      const merged = merge ? merge(remote, base, latest.current) : remote;
+      latest.current = merged;
+      setStoredValue(merged);
+      if (JSON.stringify(merged) !== e.data.value) {
+        scheduleSave();
+      } else if (timer.current === undefined) {
+        dirty.current = false;
+        setSaveStatus("saved");
+      }
+    };
+
+    return () => {
+      sync.close();
+      channel.current = null;
+    };
+  }, [key, scheduleSave]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden" && dirty.current) {
+        void flush();
+      }
+    };
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!dirty.current) return;
+      void flush();
+      e.preventDefault();
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      // Switching to another key, e.g. another board, keeps this one's changes
+      if (dirty.current) void flush();
+    };
+  }, [flush]);
+
+  return {
+    value,
+    setValue,
+    loaded,
+    loadError,
+    saveStatus,
+    saveError,
+    /** Writes pending changes now, e.g. to retry after a failed save. */
+    save: flush,
+  };
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+
+/** How often an open tab asks the server whether a new build shipped. */
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker in production builds and reports when a new
+ * build has installed and is waiting. `reload` hands the page over to it.
+ */
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    // Only an update counts; the very first install just starts caching
+    const track = (worker: ServiceWorker | null) => {
+      if (!worker || !navigator.serviceWorker.controller) return;
+      if (worker.state === "installed") {
+        setWaiting(worker);
+        return;
+      }
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed") setWaiting(worker);
+      });
+    };
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((registration) => {
+        if (cancelled) return;
+        track(registration.waiting ?? registration.installing);
+        registration.addEventListener("updatefound", () =>
+          track(registration.installing)
+        );
+        interval = setInterval(
+          () => void registration.update().catch(() => undefined),
+          UPDATE_CHECK_MS
+        );
+      })
+      .catch((err) => {
+        console.error("Failed to register the service worker:", err);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const reload = () => {
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener("controllerchange", () =>
+      window.location.reload()
+    );
+    waiting.postMessage({ type: "skipWaiting" });
+  };
+
+  return { updateAvailable: !!waiting, reload };
+};
@@ -0,0 +1,35 @@
+import {
+  DEFAULT_SYNC_SETTINGS,
+  parseSyncSettings,
+  serverUrlError,
+  type SyncServer,
+  type SyncSettings,
+} from "../lib/sync";
+import { defaultBackend } from "../lib/storage";
+import { usePersistedState } from "./usePersistedState";
+
+const SYNC_SETTINGS_KEY = "trello-sync-settings";
+
+/** The sync server this browser uses for every board. */
+export const useSyncSettings = () => {
+  const stored = usePersistedState<SyncSettings>(
+    SYNC_SETTINGS_KEY,
+    DEFAULT_SYNC_SETTINGS,
+    { backend: defaultBackend, parse: parseSyncSettings }
+  );
+  const settings = stored.value;
+  const serverUrl = settings.serverUrl.trim();
+
+  /** Where to sync, or null while sync is off or the address is unusable. */
+  const server: SyncServer | null =
+    settings.enabled && !serverUrlError(serverUrl)
+      ? { serverUrl, token: settings.token }
+      : null;
+
+  const updateSettings = (changes: Partial<SyncSettings>) =>
+    stored.setValue((current) => ({ ...current, ...changes }));
+
+  return { settings, server, updateSettings };
+};
+
+export type SyncSettingsApi = ReturnType<typeof useSyncSettings>;
@@ -0,0 +1,108 @@
+import { useRef, useState } from "react";
+
+export interface SelectionBand {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface ClickModifiers {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+/** Where a rubber band can't start: cards and anything interactive. */
+const BAND_IGNORE =
+  "[data-task-id], [draggable=true], input, textarea, select, button, a, [role=dialog]";
+/** Smaller drags are clicks, which clear the selection. */
+const BAND_THRESHOLD = 4;
+
+const intersects = (a: DOMRect, b: SelectionBand) =>
+  a.left < b.left + b.width &&
+  a.right > b.left &&
+  a.top < b.top + b.height &&
+  a.bottom > b.top;
+
+/**
+ * Multi-selection of cards by id. Ctrl/Cmd-click toggles a card,
+ * Shift-click selects the range from the last clicked card in `taskIds`
+ * order, and dragging over the board's background draws a rubber band.
+ * Ids that leave `taskIds` drop out of the selection.
+ */
+export const useTaskSelection = (taskIds: string[]) => {
+  const [selection, setSelection] = useState<string[]>([]);
+  const [band, setBand] = useState<SelectionBand | null>(null);
+  const anchor = useRef<string | null>(null);
+  const selected = selection.filter((id) => taskIds.includes(id));
+
+  const isSelected = (taskId: string) => selected.includes(taskId);
+
+  /** Handles a modified click on a card; false for plain clicks. */
+  const handleClick = (taskId: string, e: ClickModifiers) => {
+    if (e.shiftKey && anchor.current && taskIds.includes(anchor.current)) {
+      const from = taskIds.indexOf(anchor.current);
+      const to = taskIds.indexOf(taskId);
+      const range = taskIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelection([...new Set([...selected, ...range])]);
+      return true;
+    }
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      anchor.current = taskId;
+      setSelection(
+        isSelected(taskId)
+          ? selected.filter((id) => id !== taskId)
+          : [...selected, taskId]
+      );
+      return true;
+    }
+    return false;
+  };
+
+  const startBand = (e: React.MouseEvent<HTMLElement>) => {
+    if (e.button !== 0 || (e.target as Element).closest(BAND_IGNORE)) return;
+    const container = e.currentTarget;
+    const origin = { x: e.clientX, y: e.clientY };
+    const base = e.shiftKey || e.ctrlKey || e.metaKey ? selected : [];
+
+    const rectTo = (event: MouseEvent): SelectionBand => ({
+      left: Math.min(origin.x, event.clientX),
+      top: Math.min(origin.y, event.clientY),
+      width: Math.abs(event.clientX - origin.x),
+      height: Math.abs(event.clientY - origin.y),
+    });
+    const isClick = (rect: SelectionBand) =>
+      rect.width < BAND_THRESHOLD && rect.height < BAND_THRESHOLD;
+
+    const handleMove = (event: MouseEvent) => {
+      const rect = rectTo(event);
+      if (isClick(rect)) return;
+      // Dragging over text would otherwise highlight it
+      window.getSelection()?.removeAllRanges();
+      setBand(rect);
+      const hits = [
+        ...container.querySelectorAll<HTMLElement>("[data-task-id]"),
+      ]
+        .filter((el) => intersects(el.getBoundingClientRect(), rect))
+        .map((el) => el.dataset.taskId!);
+      setSelection([...new Set([...base, ...hits])]);
+    };
+    const handleUp = (event: MouseEvent) => {
+      window.removeEventListener("mousemove", handleMove);
+      setBand(null);
+      if (isClick(rectTo(event))) setSelection(base);
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp, { once: true });
+  };
+
+  return {
+    selected,
+    isSelected,
+    handleClick,
+    startBand,
+    band,
+    clear: () => setSelection([]),
+  };
+};
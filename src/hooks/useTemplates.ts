@@ -0,0 +1,44 @@
+import { defaultBackend } from "../lib/storage";
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  parseTemplateList,
+  type Template,
+  type TemplateList,
+} from "../lib/templates";
+import type { Section } from "../types";
+import { usePersistedState } from "./usePersistedState";
+
+const TEMPLATES_KEY = "trello-templates";
+
+/** Built-in templates followed by the ones saved in this browser. */
+export const useTemplates = () => {
+  const stored = usePersistedState<TemplateList>(
+    TEMPLATES_KEY,
+    { templates: [] },
+    { backend: defaultBackend, parse: parseTemplateList }
+  );
+
+  const saveTemplate = (
+    name: string,
+    kind: Template["kind"],
+    sections: Section[]
+  ) => {
+    const template = createTemplate(name, kind, sections);
+    stored.setValue((list) => ({
+      templates: [...list.templates, template],
+    }));
+    return template;
+  };
+
+  const deleteTemplate = (id: string) =>
+    stored.setValue((list) => ({
+      templates: list.templates.filter((template) => template.id !== id),
+    }));
+
+  return {
+    templates: [...BUILT_IN_TEMPLATES, ...stored.value.templates],
+    saveTemplate,
+    deleteTemplate,
+  };
+};
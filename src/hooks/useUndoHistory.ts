@@ -0,0 +1,75 @@
+import { useRef, useState } from "react";
+import {
+  emptyStacks,
+  recordChange,
+  redo,
+  undo,
+  type ChangeOptions,
+  type UndoStacks,
+} from "../lib/history";
+
+/**
+ * Keeps bounded undo/redo stacks next to a piece of persisted state. The
+ * stacks live in sessionStorage so they survive a reload of the tab.
+ *
+ * `setPresent` must apply its updater synchronously to the latest value and
+ * return the result, so several changes in one event all land.
+ */
+export const useUndoHistory = <T>(
+  storageKey: string,
+  setPresent: (update: (present: T) => T) => T
+) => {
+  const [stacks, setStacksState] = useState<UndoStacks<T>>(() => {
+    try {
+      const item = window.sessionStorage.getItem(storageKey);
+      return item ? JSON.parse(item) : emptyStacks<T>();
+    } catch (error) {
+      console.error(`Error reading sessionStorage key "${storageKey}":`, error);
+      return emptyStacks<T>();
+    }
+  });
+
+  const latest = useRef(stacks);
+
+  const setStacks = (next: UndoStacks<T>) => {
+    latest.current = next;
+    setStacksState(next);
+    try {
+      window.sessionStorage.setItem(storageKey, JSON.stringify(next));
+    } catch (error) {
+      console.error(`Error setting sessionStorage key "${storageKey}":`, error);
+    }
+  };
+
+  const commit = (update: (present: T) => T, options: ChangeOptions) => {
+    let previous = null as { state: T } | null;
+    setPresent((present) => {
+      const next = update(present);
+      // Updates that change nothing hand back the same value
+      if (next !== present) previous = { state: present };
+      return next;
+    });
+    if (previous) {
+      setStacks(recordChange(latest.current, previous.state, options));
+    }
+  };
+
+  const step = (move: typeof undo<T>): string | null => {
+    let result = null as ReturnType<typeof move>;
+    setPresent((present) => {
+      result = move(latest.current, present);
+      return result ? result.entry.state : present;
+    });
+    if (!result) return null;
+    setStacks(result.stacks);
+    return result.entry.label;
+  };
+
+  return {
+    commit,
+    undo: () => step(undo),
+    redo: () => step(redo),
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+  };
+};
@@ -0,0 +1,368 @@
+import { describe, expect, it } from "vitest";
+import type { BoardData } from "../types";
+import {
+  boardReducer,
+  checkWipLimit,
+  DEFAULT_BOARD,
+  findTaskLocation,
+  openTaskCount,
+  selectColumn,
+  selectDueSnoozed,
+  selectTask,
+} from "./board";
+import { boardWith, ERRANDS, QUICKIE, task, taskIds } from "./testing";
+
+const AT = "2025-06-18T10:00:00.000Z";
+
+describe("moveTask", () => {
+  it("measures the index before the card leaves its own column", () => {
+    const board = boardWith(QUICKIE, task("a"), task("b"), task("c"));
+
+    const down = boardReducer(board, {
+      type: "moveTask",
+      taskId: "a",
+      from: QUICKIE,
+      to: QUICKIE,
+      index: 2,
+      at: AT,
+    });
+    expect(taskIds(down, QUICKIE)).toEqual(["b", "a", "c"]);
+
+    const up = boardReducer(board, {
+      type: "moveTask",
+      taskId: "c",
+      from: QUICKIE,
+      to: QUICKIE,
+      index: 0,
+      at: AT,
+    });
+    expect(taskIds(up, QUICKIE)).toEqual(["c", "a", "b"]);
+  });
+
+  it("appends to another column and stamps movedAt", () => {
+    const board = boardReducer(boardWith(QUICKIE, task("a"), task("b")), {
+      type: "moveTask",
+      taskId: "a",
+      from: QUICKIE,
+      to: ERRANDS,
+      at: AT,
+    });
+    expect(taskIds(board, QUICKIE)).toEqual(["b"]);
+    expect(selectTask(board.sections, ERRANDS, "a")?.movedAt).toBe(AT);
+  });
+
+  it("takes back the completion of unchecked cards leaving a finished day", () => {
+    const FINISHED = { sectionId: "finished", columnId: "mon" };
+    const move = (
+      board: BoardData,
+      taskId: string,
+      from = QUICKIE,
+      to = FINISHED
+    ) => boardReducer(board, { type: "moveTask", taskId, from, to, at: AT });
+    const dropped = move(
+      move(boardWith(QUICKIE, task("a"), task("b", { completed: true })), "a"),
+      "b"
+    );
+    expect(selectTask(dropped.sections, FINISHED, "a")).toMatchObject({
+      completedAt: AT,
+      completedIn: "Quickie",
+    });
+
+    const back = move(
+      move(dropped, "a", FINISHED, QUICKIE),
+      "b",
+      FINISHED,
+      QUICKIE
+    );
+    const [a, b] = selectColumn(back.sections, QUICKIE)!.tasks;
+    expect(a.completedAt).toBeUndefined();
+    expect(a.completedIn).toBeUndefined();
+    expect(a.finishedDay).toBeUndefined();
+    expect(b).toMatchObject({ completedAt: AT, completedIn: "Quickie" });
+  });
+
+  it("leaves the board alone when the card is not where it says", () => {
+    const board = boardWith(QUICKIE, task("a"));
+    expect(
+      boardReducer(board, {
+        type: "moveTask",
+        taskId: "a",
+        from: ERRANDS,
+        to: QUICKIE,
+        at: AT,
+      })
+    ).toBe(board);
+  });
+});
+
+describe("moveTasks", () => {
+  it("keeps the cards in order in front of the first card that stays", () => {
+    const board = boardWith(
+      QUICKIE,
+      task("a"),
+      task("b"),
+      task("c"),
+      task("d")
+    );
+    const moved = boardReducer(board, {
+      type: "moveTasks",
+      tasks: [
+        { taskId: "a", from: QUICKIE },
+        { taskId: "c", from: QUICKIE },
+      ],
+      to: QUICKIE,
+      index: 3,
+      at: AT,
+    });
+    expect(taskIds(moved, QUICKIE)).toEqual(["b", "a", "c", "d"]);
+  });
+
+  it("appends when every card after the index is moving too", () => {
+    const board = boardWith(QUICKIE, task("a"), task("b"), task("c"));
+    const moved = boardReducer(board, {
+      type: "moveTasks",
+      tasks: [
+        { taskId: "b", from: QUICKIE },
+        { taskId: "c", from: QUICKIE },
+      ],
+      to: QUICKIE,
+      index: 1,
+      at: AT,
+    });
+    expect(taskIds(moved, QUICKIE)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("toggleTask", () => {
+  it("records when and in which column a card was completed", () => {
+    const done = boardReducer(boardWith(QUICKIE, task("a")), {
+      type: "toggleTask",
+      ...QUICKIE,
+      taskId: "a",
+      at: AT,
+      nextId: "next",
+    });
+    expect(selectTask(done.sections, QUICKIE, "a")).toMatchObject({
+      completed: true,
+      completedAt: AT,
+      completedIn: "Quickie",
+    });
+
+    const undone = boardReducer(done, {
+      type: "toggleTask",
+      ...QUICKIE,
+      taskId: "a",
+      at: AT,
+      nextId: "next",
+    });
+    const reopened = selectTask(undone.sections, QUICKIE, "a");
+    expect(reopened?.completed).toBe(false);
+    expect(reopened?.completedAt).toBeUndefined();
+    expect(reopened?.completedIn).toBeUndefined();
+  });
+
+  it("keeps the original column for cards toggled in a finished day", () => {
+    const finished = { sectionId: "finished", columnId: "mon" };
+    const board = boardReducer(
+      boardWith(QUICKIE, task("a", { completedIn: "Errand" })),
+      { type: "moveTask", taskId: "a", from: QUICKIE, to: finished, at: AT }
+    );
+    const toggled = boardReducer(board, {
+      type: "toggleTask",
+      ...finished,
+      taskId: "a",
+      at: AT,
+      nextId: "next",
+    });
+    expect(selectTask(toggled.sections, finished, "a")).toMatchObject({
+      completed: true,
+      completedIn: "Errand",
+    });
+  });
+});
+
+describe("boardReducer", () => {
+  it("hands back the same board when an action changes nothing", () => {
+    const board = boardWith(QUICKIE, task("a"));
+    expect(
+      boardReducer(board, {
+        type: "renameTask",
+        ...QUICKIE,
+        taskId: "a",
+        title: "Task a",
+      })
+    ).toBe(board);
+    expect(
+      boardReducer(board, {
+        type: "toggleTask",
+        ...ERRANDS,
+        taskId: "a",
+        at: AT,
+        nextId: "next",
+      })
+    ).toBe(board);
+    expect(
+      boardReducer(board, {
+        type: "renameSection",
+        sectionId: "gone",
+        title: "X",
+      })
+    ).toBe(board);
+  });
+});
+
+describe("removeLastColumn", () => {
+  it("removes columns but always keeps one", () => {
+    const board = [1, 2, 3, 4, 5].reduce(
+      (current) =>
+        boardReducer(current, {
+          type: "removeLastColumn",
+          sectionId: "current",
+        }),
+      DEFAULT_BOARD
+    );
+    const current = board.sections.find((s) => s.id === "current");
+    expect(current?.columns.map((col) => col.id)).toEqual(["quickie"]);
+  });
+});
+
+describe("selectors", () => {
+  it("finds a card wherever it is", () => {
+    const board = boardWith(QUICKIE, task("a"));
+    expect(findTaskLocation(board.sections, "a")).toEqual(QUICKIE);
+    expect(findTaskLocation(board.sections, "missing")).toBeUndefined();
+  });
+
+  it("counts only open cards towards a WIP limit", () => {
+    const board = boardReducer(
+      {
+        ...boardWith(QUICKIE, task("a"), task("b", { completed: true })),
+        settings: { enforceWipLimits: true },
+      },
+      { type: "setWipLimit", ...QUICKIE, limit: 2 }
+    );
+    const column = selectColumn(board.sections, QUICKIE)!;
+    expect(openTaskCount(column)).toBe(1);
+    expect(checkWipLimit(board, QUICKIE)).toBeNull();
+    expect(checkWipLimit(board, QUICKIE, [task("c"), task("d")])).toMatch(
+      /only has room for 1 card more/
+    );
+  });
+});
+
+describe("recurring tasks", () => {
+  const FINISHED = { sectionId: "finished", columnId: "mon" };
+  const daily = task("a", { recurrence: { kind: "daily" } });
+  const toggle = (board: BoardData, location = FINISHED) =>
+    boardReducer(board, {
+      type: "toggleTask",
+      ...location,
+      taskId: "a",
+      at: AT,
+      nextId: "next",
+    });
+
+  it("schedules the next one in the column the card was done in", () => {
+    const board = toggle(boardWith(QUICKIE, daily), QUICKIE);
+    expect(board.scheduled).toMatchObject([
+      { ...QUICKIE, sourceId: "a", due: "2025-06-19", task: { id: "next" } },
+    ]);
+    // Replaying the action gives the same board
+    expect(toggle(boardWith(QUICKIE, daily), QUICKIE)).toEqual(board);
+    expect(toggle(board, QUICKIE).scheduled).toEqual([]);
+  });
+
+  it("respawns cards re-checked in a finished day where they came from", () => {
+    const moved = boardReducer(
+      boardReducer(boardWith(QUICKIE, daily), {
+        type: "moveTask",
+        taskId: "a",
+        from: QUICKIE,
+        to: ERRANDS,
+        at: AT,
+      }),
+      {
+        type: "moveTask",
+        taskId: "a",
+        from: ERRANDS,
+        to: FINISHED,
+        at: AT,
+        nextId: "next",
+      }
+    );
+    expect(moved.scheduled).toMatchObject([ERRANDS]);
+
+    // Checked, unchecked and checked again without leaving Finished
+    const rechecked = toggle(toggle(toggle(moved)));
+    expect(rechecked.scheduled).toHaveLength(1);
+    expect(rechecked.scheduled[0]).toMatchObject(ERRANDS);
+  });
+});
+
+describe("snoozing", () => {
+  const ICEBOX = { sectionId: "icebox", columnId: "icebox-quickie" };
+  const snoozed = boardReducer(boardWith(QUICKIE, task("a"), task("b")), {
+    type: "snoozeTask",
+    taskId: "a",
+    from: QUICKIE,
+    target: "icebox",
+    until: "2025-06-20",
+    at: AT,
+  });
+  const wake = (board: BoardData, today: string) =>
+    boardReducer(board, { type: "wakeSnoozed", today, at: AT });
+
+  it("parks the card in the same type of column until its date", () => {
+    expect(taskIds(snoozed, QUICKIE)).toEqual(["b"]);
+    expect(selectTask(snoozed.sections, ICEBOX, "a")?.snoozedUntil).toBe(
+      "2025-06-20"
+    );
+    expect(wake(snoozed, "2025-06-19")).toBe(snoozed);
+  });
+
+  it("wakes the card back into Current on its date", () => {
+    const woken = wake(snoozed, "2025-06-20");
+    expect(taskIds(woken, QUICKIE)).toEqual(["b", "a"]);
+    expect(selectTask(woken.sections, QUICKIE, "a")?.snoozedUntil).toBe(
+      undefined
+    );
+  });
+
+  it("lists the open cards due back today or earlier, in board order", () => {
+    const board = boardReducer(
+      boardReducer(snoozed, {
+        type: "snoozeTask",
+        taskId: "b",
+        from: QUICKIE,
+        target: "backlog",
+        until: "2025-06-18",
+        at: AT,
+      }),
+      {
+        type: "addTask",
+        ...ICEBOX,
+        task: task("c", { completed: true, snoozedUntil: "2025-06-18" }),
+      }
+    );
+    expect(
+      selectDueSnoozed(board.sections, "2025-06-19").map(({ task }) => task.id)
+    ).toEqual(["b"]);
+    expect(
+      selectDueSnoozed(board.sections, "2025-06-20").map(({ task }) => task.id)
+    ).toEqual(["b", "a"]);
+  });
+
+  it("cancels the snooze of a card moved by hand", () => {
+    const moved = boardReducer(snoozed, {
+      type: "moveTask",
+      taskId: "a",
+      from: ICEBOX,
+      to: ERRANDS,
+      at: AT,
+    });
+    expect(selectTask(moved.sections, ERRANDS, "a")?.snoozedUntil).toBe(
+      undefined
+    );
+    expect(selectDueSnoozed(moved.sections, "2025-06-20")).toEqual([]);
+  });
+});
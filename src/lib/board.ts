@@ -0,0 +1,939 @@
+import type {
+  BoardData,
+  BoardSettings,
+  Column,
+  ScheduledTask,
+  Section,
+  Task,
+} from "../types";
+import { toDateKey } from "./dates";
+import type { ChangeOptions } from "./history";
+import { nextInstance } from "./recurrence";
+import { SCHEMA_VERSION } from "./schema";
+import { FINISHED_SECTION_ID, removeFromArchive, rollOverWeek } from "./week";
+
+export interface TaskLocation {
+  sectionId: string;
+  columnId: string;
+}
+
+export type BoardAction =
+  | { type: "addSection"; section: Section }
+  | { type: "deleteSection"; sectionId: string }
+  | { type: "renameSection"; sectionId: string; title: string }
+  | { type: "clearCompleted"; sectionId: string }
+  | { type: "addColumn"; sectionId: string; column: Column }
+  | { type: "removeLastColumn"; sectionId: string }
+  | { type: "renameColumn"; sectionId: string; columnId: string; title: string }
+  | {
+      type: "setWipLimit";
+      sectionId: string;
+      columnId: string;
+      /** Undefined removes the limit. */
+      limit: number | undefined;
+    }
+  | { type: "addTask"; sectionId: string; columnId: string; task: Task }
+  | { type: "deleteTask"; sectionId: string; columnId: string; taskId: string }
+  | {
+      type: "toggleTask";
+      sectionId: string;
+      columnId: string;
+      taskId: string;
+      at: string;
+      /** Id for the next instance, should this complete a recurring task. */
+      nextId: string;
+    }
+  | {
+      type: "renameTask";
+      sectionId: string;
+      columnId: string;
+      taskId: string;
+      title: string;
+    }
+  | {
+      type: "updateTask";
+      sectionId: string;
+      columnId: string;
+      taskId: string;
+      changes: Partial<Omit<Task, "id">>;
+    }
+  | {
+      type: "moveTask";
+      taskId: string;
+      from: TaskLocation;
+      to: TaskLocation;
+      /** Insertion index in the target column as displayed; appends if omitted. */
+      index?: number;
+      at: string;
+      /** Id for the next instance, should this drop a recurring task in a finished day. */
+      nextId?: string;
+    }
+  | {
+      /** Moves several cards together, keeping their order, to `index` in `to`. */
+      type: "moveTasks";
+      tasks: { taskId: string; from: TaskLocation; nextId?: string }[];
+      to: TaskLocation;
+      index?: number;
+      at: string;
+    }
+  /** Applies several actions as one undoable change. */
+  | { type: "batch"; actions: BoardAction[]; label: string }
+  | {
+      type: "moveColumn";
+      columnId: string;
+      fromSectionId: string;
+      toSectionId: string;
+      index: number;
+    }
+  | { type: "moveSection"; sectionId: string; index: number }
+  | {
+      type: "restoreArchivedTask";
+      week: string;
+      task: Task;
+      to: TaskLocation;
+    }
+  | {
+      /** Swaps this tab's version of a task for the other tab's after a sync conflict. */
+      type: "resolveConflict";
+      taskId: string;
+      /** Null when the other tab deleted the task. */
+      version: { task: Task; location: TaskLocation } | null;
+    }
+  | { type: "rollOverWeek"; now: string }
+  /** Puts scheduled tasks due on or before `today` on the board. */
+  | { type: "respawnDue"; today: string }
+  | {
+      /** Moves a card to the same type of column in Icebox or Backlog until `until`. */
+      type: "snoozeTask";
+      taskId: string;
+      from: TaskLocation;
+      target: SnoozeTarget;
+      until: string;
+      at: string;
+    }
+  /** Moves snoozed cards whose date has come back to "🔥 Current". */
+  | { type: "wakeSnoozed"; today: string; at: string }
+  | { type: "replaceBoard"; board: BoardData; label?: string }
+  | { type: "updateSettings"; changes: Partial<BoardSettings> };
+
+export const DEFAULT_BOARD: BoardData = {
+  version: SCHEMA_VERSION,
+  sections: [
+    {
+      id: FINISHED_SECTION_ID,
+      title: "✅ Finished",
+      columns: [
+        { id: "mon", title: "Mon", tasks: [] },
+        { id: "tue", title: "Tue", tasks: [] },
+        { id: "wed", title: "Wed", tasks: [] },
+        { id: "thu", title: "Thu", tasks: [] },
+        { id: "fri", title: "Fri", tasks: [] },
+        { id: "weekend", title: "Sat+Sun", tasks: [] },
+      ],
+    },
+    {
+      id: "current",
+      title: "🔥 Current",
+      columns: [
+        { id: "quickie", title: "Quickie", tasks: [] },
+        { id: "errand", title: "Errand", tasks: [] },
+        { id: "chore", title: "Chore", tasks: [] },
+        { id: "project", title: "Project", tasks: [] },
+      ],
+    },
+    {
+      id: "backlog",
+      title: "📋 Backlog",
+      columns: [
+        { id: "backlog-quickie", title: "Quickie", tasks: [] },
+        { id: "backlog-errand", title: "Errand", tasks: [] },
+        { id: "backlog-chore", title: "Chore", tasks: [] },
+        { id: "backlog-project", title: "Project", tasks: [] },
+      ],
+    },
+    {
+      id: "icebox",
+      title: "🧊 Icebox",
+      columns: [
+        { id: "icebox-quickie", title: "Quickie", tasks: [] },
+        { id: "icebox-errand", title: "Errand", tasks: [] },
+        { id: "icebox-chore", title: "Chore", tasks: [] },
+        { id: "icebox-project", title: "Project", tasks: [] },
+      ],
+    },
+  ],
+  archive: { lastWeek: null, weeks: {} },
+  scheduled: [],
+  settings: { enforceWipLimits: false },
+};
+
+/**
+ * `items` with the one with `id` updated, or `items` itself when there is no
+ * such item or the update left it as it was.
+ */
+const updateById = <T extends { id: string }>(
+  items: T[],
+  id: string,
+  update: (item: T) => T
+): T[] => {
+  const index = items.findIndex((item) => item.id === id);
+  if (index < 0) return items;
+  const updated = update(items[index]);
+  return updated === items[index]
+    ? items
+    : items.map((item, i) => (i === index ? updated : item));
+};
+
+const updateSection = (
+  sections: Section[],
+  sectionId: string,
+  update: (section: Section) => Section
+): Section[] => updateById(sections, sectionId, update);
+
+const updateColumn = (
+  sections: Section[],
+  sectionId: string,
+  columnId: string,
+  update: (column: Column) => Column
+): Section[] =>
+  updateSection(sections, sectionId, (section) => {
+    const columns = updateById(section.columns, columnId, update);
+    return columns === section.columns ? section : { ...section, columns };
+  });
+
+const updateTask = (
+  sections: Section[],
+  sectionId: string,
+  columnId: string,
+  taskId: string,
+  update: (task: Task) => Task
+): Section[] =>
+  updateColumn(sections, sectionId, columnId, (col) => {
+    const tasks = updateById(col.tasks, taskId, update);
+    return tasks === col.tasks ? col : { ...col, tasks };
+  });
+
+const insertAt = <T>(items: T[], item: T, index = items.length): T[] => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index),
+];
+
+/**
+ * Moves an item to `index`, where the index was measured while the item was
+ * still in the list (as drop indicators are).
+ */
+const moveWithin = <T>(items: T[], from: number, index: number): T[] => {
+  const to = from < index ? index - 1 : index;
+  const without = items.filter((_, i) => i !== from);
+  return insertAt(without, items[from], to);
+};
+
+const insertTask = (
+  sections: Section[],
+  { sectionId, columnId }: TaskLocation,
+  task: Task,
+  index?: number
+): Section[] =>
+  updateColumn(sections, sectionId, columnId, (col) => ({
+    ...col,
+    tasks: insertAt(col.tasks, task, index),
+  }));
+
+const sectionsReducer = (
+  sections: Section[],
+  action: BoardAction
+): Section[] => {
+  switch (action.type) {
+    case "addSection":
+      return [...sections, action.section];
+
+    case "deleteSection":
+      return sections.filter((section) => section.id !== action.sectionId);
+
+    case "renameSection":
+      return updateSection(sections, action.sectionId, (section) =>
+        section.title === action.title
+          ? section
+          : { ...section, title: action.title }
+      );
+
+    case "clearCompleted":
+      return updateSection(sections, action.sectionId, (section) => ({
+        ...section,
+        columns: section.columns.map((col) => ({
+          ...col,
+          tasks: col.tasks.filter((task) => !task.completed),
+        })),
+      }));
+
+    case "addColumn":
+      return updateSection(sections, action.sectionId, (section) => ({
+        ...section,
+        columns: [...section.columns, action.column],
+      }));
+
+    case "removeLastColumn":
+      return updateSection(sections, action.sectionId, (section) =>
+        section.columns.length > 1
+          ? { ...section, columns: section.columns.slice(0, -1) }
+          : section
+      );
+
+    case "renameColumn":
+      return updateColumn(sections, action.sectionId, action.columnId, (col) =>
+        col.title === action.title ? col : { ...col, title: action.title }
+      );
+
+    case "setWipLimit":
+      return updateColumn(
+        sections,
+        action.sectionId,
+        action.columnId,
+        (col) => ({ ...col, wipLimit: action.limit })
+      );
+
+    case "addTask":
+      return insertTask(sections, action, action.task);
+
+    case "deleteTask":
+      return updateColumn(
+        sections,
+        action.sectionId,
+        action.columnId,
+        (col) => ({
+          ...col,
+          tasks: col.tasks.filter((task) => task.id !== action.taskId),
+        })
+      );
+
+    case "toggleTask": {
+      const column = selectColumn(sections, action);
+      return updateTask(
+        sections,
+        action.sectionId,
+        action.columnId,
+        action.taskId,
+        (task) => ({
+          ...task,
+          completed: !task.completed,
+          completedAt: task.completed ? undefined : action.at,
+          // A finished day keeps the column the card came from either way
+          completedIn:
+            action.sectionId === FINISHED_SECTION_ID
+              ? task.completedIn
+              : task.completed
+                ? undefined
+                : column?.title,
+        })
+      );
+    }
+
+    case "renameTask":
+      return updateTask(
+        sections,
+        action.sectionId,
+        action.columnId,
+        action.taskId,
+        (task) =>
+          task.title === action.title ? task : { ...task, title: action.title }
+      );
+
+    case "updateTask":
+      return updateTask(
+        sections,
+        action.sectionId,
+        action.columnId,
+        action.taskId,
+        (task) => ({ ...task, ...action.changes })
+      );
+
+    case "moveTask": {
+      const task = selectTask(sections, action.from, action.taskId);
+      if (!task) return sections;
+
+      const changesColumn =
+        action.from.sectionId !== action.to.sectionId ||
+        action.from.columnId !== action.to.columnId;
+      // Moving a snoozed card by hand cancels the snooze
+      const moved: Task = changesColumn
+        ? { ...task, movedAt: action.at, snoozedUntil: undefined }
+        : task;
+
+      // Remember which finished day the task landed in, and where it came from.
+      // Unchecked cards taken back out of one are no longer done.
+      const fromFinished = action.from.sectionId === FINISHED_SECTION_ID;
+      const movedTask: Task =
+        action.to.sectionId === FINISHED_SECTION_ID
+          ? {
+              ...moved,
+              finishedDay: action.to.columnId,
+              completedAt: task.completedAt ?? action.at,
+              completedIn:
+                task.completedIn ??
+                (fromFinished
+                  ? undefined
+                  : selectColumn(sections, action.from)?.title),
+            }
+          : fromFinished && !task.completed
+            ? {
+                ...moved,
+                finishedDay: undefined,
+                completedAt: undefined,
+                completedIn: undefined,
+              }
+            : { ...moved, finishedDay: undefined };
+
+      if (
+        action.from.sectionId === action.to.sectionId &&
+        action.from.columnId === action.to.columnId
+      ) {
+        return updateColumn(
+          sections,
+          action.to.sectionId,
+          action.to.columnId,
+          (col) => ({
+            ...col,
+            tasks: moveWithin(
+              col.tasks.map((t) => (t.id === action.taskId ? movedTask : t)),
+              col.tasks.findIndex((t) => t.id === action.taskId),
+              action.index ?? col.tasks.length
+            ),
+          })
+        );
+      }
+
+      const withoutTask = updateColumn(
+        sections,
+        action.from.sectionId,
+        action.from.columnId,
+        (col) => ({
+          ...col,
+          tasks: col.tasks.filter((t) => t.id !== action.taskId),
+        })
+      );
+      return insertTask(withoutTask, action.to, movedTask, action.index);
+    }
+
+    case "moveColumn": {
+      const from = selectSection(sections, action.fromSectionId);
+      const fromIndex =
+        from?.columns.findIndex((col) => col.id === action.columnId) ?? -1;
+      if (!from || fromIndex < 0) return sections;
+
+      if (action.fromSectionId === action.toSectionId) {
+        return updateSection(sections, from.id, (section) => ({
+          ...section,
+          columns: moveWithin(section.columns, fromIndex, action.index),
+        }));
+      }
+
+      // Every section keeps at least one column
+      if (from.columns.length <= 1) return sections;
+      const column = from.columns[fromIndex];
+      return updateSection(
+        updateSection(sections, from.id, (section) => ({
+          ...section,
+          columns: section.columns.filter((col) => col.id !== column.id),
+        })),
+        action.toSectionId,
+        (section) => ({
+          ...section,
+          columns: insertAt(section.columns, column, action.index),
+        })
+      );
+    }
+
+    case "moveSection": {
+      const fromIndex = sections.findIndex((s) => s.id === action.sectionId);
+      if (fromIndex < 0) return sections;
+      return moveWithin(sections, fromIndex, action.index);
+    }
+
+    case "restoreArchivedTask":
+      return insertTask(sections, action.to, {
+        ...action.task,
+        finishedDay: undefined,
+      });
+
+    case "resolveConflict": {
+      const withoutTask = sections.map((section) => ({
+        ...section,
+        columns: section.columns.map((col) => ({
+          ...col,
+          tasks: col.tasks.filter((task) => task.id !== action.taskId),
+        })),
+      }));
+      return action.version
+        ? insertTask(withoutTask, action.version.location, action.version.task)
+        : withoutTask;
+    }
+
+    default:
+      return sections;
+  }
+};
+
+/**
+ * The column a card in a finished day was completed from: the one titled
+ * like its `completedIn`, preferably in "🔥 Current", or else the first
+ * column of "🔥 Current".
+ */
+const completionSource = (
+  sections: Section[],
+  task: Task
+): TaskLocation | undefined => {
+  const current = selectCurrentSection(sections);
+  const isSource = (col: Column) =>
+    !!task.completedIn &&
+    normalizeTitle(col.title) === normalizeTitle(task.completedIn);
+  const section =
+    [current, ...sections].find(
+      (s) => s && s.id !== FINISHED_SECTION_ID && s.columns.some(isSource)
+    ) ?? current;
+  const column = section?.columns.find(isSource) ?? section?.columns[0];
+  return section && column
+    ? { sectionId: section.id, columnId: column.id }
+    : undefined;
+};
+
+/**
+ * Schedules the next instance of a recurring task that just got completed,
+ * or drops the scheduled one when it was un-completed. `origin` is the
+ * column the task was completed from; a finished day stands in for the
+ * column the card had come from, so the next one doesn't respawn there.
+ * The next instance gets `nextId`, which the action brings along so that
+ * replaying it gives the same board.
+ */
+const scheduleRecurrence = (
+  scheduled: ScheduledTask[],
+  sections: Section[],
+  before: Task | undefined,
+  after: Task | undefined,
+  origin: TaskLocation,
+  at: string,
+  nextId: string | undefined
+): ScheduledTask[] => {
+  if (!before || !after) return scheduled;
+  if (before.completedAt && !after.completedAt) {
+    return scheduled.filter((entry) => entry.sourceId !== after.id);
+  }
+  if (before.completedAt || !after.completedAt || !after.recurrence) {
+    return scheduled;
+  }
+  const source =
+    origin.sectionId === FINISHED_SECTION_ID
+      ? completionSource(sections, after)
+      : origin;
+  if (!source || !nextId) return scheduled;
+  const task = {
+    ...nextInstance(
+      { ...after, recurrence: after.recurrence },
+      nextId,
+      toDateKey(new Date(at))
+    ),
+    createdAt: at,
+  };
+  return [
+    ...scheduled,
+    {
+      task,
+      sectionId: source.sectionId,
+      columnId: source.columnId,
+      due: task.dueDate!,
+      sourceId: after.id,
+    },
+  ];
+};
+
+export const boardReducer = (
+  board: BoardData,
+  action: BoardAction
+): BoardData => {
+  switch (action.type) {
+    case "replaceBoard":
+      return action.board;
+
+    case "batch":
+      return action.actions.reduce(boardReducer, board);
+
+    case "moveTasks": {
+      // Cards land in front of the first card at `index` that stays put
+      const moving = new Set(action.tasks.map(({ taskId }) => taskId));
+      const anchor =
+        action.index === undefined
+          ? undefined
+          : selectColumn(board.sections, action.to)
+              ?.tasks.slice(action.index)
+              .find((task) => !moving.has(task.id))?.id;
+      return action.tasks.reduce((current, { taskId, from, nextId }) => {
+        const index = selectColumn(
+          current.sections,
+          action.to
+        )?.tasks.findIndex((task) => task.id === anchor);
+        return boardReducer(current, {
+          type: "moveTask",
+          taskId,
+          from,
+          to: action.to,
+          index: index !== undefined && index >= 0 ? index : undefined,
+          at: action.at,
+          nextId,
+        });
+      }, board);
+    }
+
+    case "updateSettings":
+      return { ...board, settings: { ...board.settings, ...action.changes } };
+
+    case "rollOverWeek": {
+      const rolledOver = rollOverWeek(
+        board.sections,
+        board.archive,
+        new Date(action.now)
+      );
+      return rolledOver ? { ...board, ...rolledOver } : board;
+    }
+
+    case "toggleTask":
+    case "moveTask": {
+      const origin =
+        action.type === "toggleTask"
+          ? { sectionId: action.sectionId, columnId: action.columnId }
+          : action.from;
+      const taskId = action.taskId;
+      const sections = sectionsReducer(board.sections, action);
+      if (sections === board.sections) return board;
+      const after = findTaskLocation(sections, taskId);
+      return {
+        ...board,
+        sections,
+        scheduled: scheduleRecurrence(
+          board.scheduled,
+          sections,
+          selectTask(board.sections, origin, taskId),
+          after && selectTask(sections, after, taskId),
+          origin,
+          action.at,
+          action.nextId
+        ),
+      };
+    }
+
+    case "respawnDue": {
+      const due = board.scheduled.filter((entry) => entry.due <= action.today);
+      if (due.length === 0) return board;
+      const sections = due.reduce((current, entry) => {
+        // Fall back to the first column when the original one is gone
+        const location = selectColumn(current, entry)
+          ? entry
+          : current
+              .filter((section) => section.id !== FINISHED_SECTION_ID)
+              .map((section) => ({
+                sectionId: section.id,
+                columnId: section.columns[0]?.id,
+              }))
+              .find((loc) => loc.columnId);
+        return location ? insertTask(current, location, entry.task) : current;
+      }, board.sections);
+      return {
+        ...board,
+        sections,
+        scheduled: board.scheduled.filter((entry) => !due.includes(entry)),
+      };
+    }
+
+    case "snoozeTask": {
+      const to = snoozeLocation(board.sections, action.from, action.target);
+      if (!to) return board;
+      const moved = boardReducer(board, {
+        type: "moveTask",
+        taskId: action.taskId,
+        from: action.from,
+        to,
+        at: action.at,
+      });
+      return {
+        ...moved,
+        sections: updateTask(
+          moved.sections,
+          to.sectionId,
+          to.columnId,
+          action.taskId,
+          (task) => ({ ...task, snoozedUntil: action.until })
+        ),
+      };
+    }
+
+    case "wakeSnoozed":
+      return selectDueSnoozed(board.sections, action.today).reduce(
+        (current, { task, location }) => {
+          const to = wakeLocation(current.sections, location) ?? location;
+          const moved = boardReducer(current, {
+            type: "moveTask",
+            taskId: task.id,
+            from: location,
+            to,
+            at: action.at,
+          });
+          return {
+            ...moved,
+            sections: updateTask(
+              moved.sections,
+              to.sectionId,
+              to.columnId,
+              task.id,
+              (t) => ({ ...t, snoozedUntil: undefined })
+            ),
+          };
+        },
+        board
+      );
+
+    case "restoreArchivedTask":
+      return {
+        ...board,
+        sections: sectionsReducer(board.sections, action),
+        archive: removeFromArchive(board.archive, action.week, action.task.id),
+      };
+
+    default: {
+      const sections = sectionsReducer(board.sections, action);
+      return sections === board.sections ? board : { ...board, sections };
+    }
+  }
+};
+
+/**
+ * Undo label for an action, or null for bookkeeping that should not show up
+ * in the undo history.
+ */
+export const describeAction = (action: BoardAction): ChangeOptions | null => {
+  switch (action.type) {
+    case "addSection":
+      return { label: "Section added" };
+    case "deleteSection":
+      return { label: "Section deleted" };
+    case "renameSection":
+      return {
+        label: "Section renamed",
+        mergeKey: `section-title:${action.sectionId}`,
+      };
+    case "clearCompleted":
+      return { label: "Completed tasks cleared" };
+    case "addColumn":
+      return { label: "Column added" };
+    case "removeLastColumn":
+      return { label: "Column removed" };
+    case "renameColumn":
+      return {
+        label: "Column renamed",
+        mergeKey: `column-title:${action.columnId}`,
+      };
+    case "setWipLimit":
+      return { label: "WIP limit changed" };
+    case "addTask":
+      return { label: "Card added" };
+    case "deleteTask":
+      return { label: "Card deleted" };
+    case "toggleTask":
+      return { label: "Card completion toggled" };
+    case "renameTask":
+      return {
+        label: "Card renamed",
+        mergeKey: `task-title:${action.taskId}`,
+      };
+    case "updateTask":
+      return {
+        label: "Card edited",
+        mergeKey: `task-details:${action.taskId}`,
+      };
+    case "moveTask":
+      return { label: "Card moved" };
+    case "moveColumn":
+      return { label: "Column moved" };
+    case "moveSection":
+      return { label: "Section moved" };
+    case "restoreArchivedTask":
+      return { label: "Card restored" };
+    case "resolveConflict":
+      return { label: "Kept the other version" };
+    case "replaceBoard":
+      return { label: action.label ?? "Board imported" };
+    case "updateSettings":
+      return { label: "Settings changed" };
+    case "moveTasks":
+      return { label: `${cardCount(action.tasks.length)} moved` };
+    case "batch":
+      return { label: action.label };
+    case "snoozeTask":
+      return { label: "Card snoozed" };
+    case "rollOverWeek":
+    case "respawnDue":
+    case "wakeSnoozed":
+      return null;
+  }
+};
+
+export const selectSection = (
+  sections: Section[],
+  sectionId: string
+): Section | undefined => sections.find((section) => section.id === sectionId);
+
+export const selectColumn = (
+  sections: Section[],
+  { sectionId, columnId }: TaskLocation
+): Column | undefined =>
+  selectSection(sections, sectionId)?.columns.find(
+    (col) => col.id === columnId
+  );
+
+export const selectTask = (
+  sections: Section[],
+  location: TaskLocation,
+  taskId: string
+): Task | undefined =>
+  selectColumn(sections, location)?.tasks.find((task) => task.id === taskId);
+
+export const findTaskLocation = (
+  sections: Section[],
+  taskId: string
+): TaskLocation | undefined => {
+  for (const section of sections) {
+    for (const col of section.columns) {
+      if (col.tasks.some((task) => task.id === taskId)) {
+        return { sectionId: section.id, columnId: col.id };
+      }
+    }
+  }
+  return undefined;
+};
+
+export const selectAllTasks = (
+  sections: Section[]
+): { task: Task; location: TaskLocation }[] =>
+  sections.flatMap((section) =>
+    section.columns.flatMap((col) =>
+      col.tasks.map((task) => ({
+        task,
+        location: { sectionId: section.id, columnId: col.id },
+      }))
+    )
+  );
+
+/** "1 card", "3 cards". */
+export const cardCount = (count: number) =>
+  `${count} ${count === 1 ? "card" : "cards"}`;
+
+/** Cards that count towards a WIP limit: the ones not done yet. */
+export const openTaskCount = (column: Column): number =>
+  column.tasks.filter((task) => !task.completed).length;
+
+/**
+ * Why the open cards in `moving` (or one new card) can't go into the column
+ * at `to`, or null when they can. Only applies when the board enforces WIP
+ * limits; completed cards and cards already in the column never count.
+ */
+export const checkWipLimit = (
+  board: BoardData,
+  to: TaskLocation,
+  moving: Task[] = []
+): string | null => {
+  if (!board.settings.enforceWipLimits) return null;
+  const column = selectColumn(board.sections, to);
+  if (!column?.wipLimit) return null;
+  const arriving =
+    moving.length === 0
+      ? 1
+      : moving.filter(
+          (task) =>
+            !task.completed && !column.tasks.some((t) => t.id === task.id)
+        ).length;
+  const open = openTaskCount(column);
+  if (arriving === 0 || open + arriving <= column.wipLimit) return null;
+  return open >= column.wipLimit
+    ? `${column.title} is at its WIP limit (${open}/${column.wipLimit}). Finish or move a card out first.`
+    : `${column.title} only has room for ${cardCount(column.wipLimit - open)} more (WIP limit ${column.wipLimit}).`;
+};
+
+/** Sections a card can be snoozed into, by id. */
+export const SNOOZE_TARGETS = ["icebox", "backlog"] as const;
+
+export type SnoozeTarget = (typeof SNOOZE_TARGETS)[number];
+
+const CURRENT_SECTION_ID = "current";
+
+/** The section with this id, or else the one titled like it. */
+const findSectionLike = (sections: Section[], sectionId: string) =>
+  selectSection(sections, sectionId) ??
+  sections.find((section) => normalizeTitle(section.title) === sectionId);
+
+/** "icebox-quickie" and "quickie" hold the same type of card. */
+const columnType = (columnId: string) =>
+  columnId.replace(new RegExp(`^(${SNOOZE_TARGETS.join("|")})-`), "");
+
+/**
+ * The column in `section` for the same type of card as `column`: by id as
+ * in the default board, then by title, then the first one.
+ */
+const matchingColumn = (section: Section, column: Column) =>
+  section.columns.find((col) => columnType(col.id) === columnType(column.id)) ??
+  section.columns.find(
+    (col) => normalizeTitle(col.title) === normalizeTitle(column.title)
+  ) ??
+  section.columns[0];
+
+const matchingLocation = (
+  sections: Section[],
+  from: TaskLocation,
+  section: Section | undefined
+): TaskLocation | undefined => {
+  const column = selectColumn(sections, from);
+  const target = section && column && matchingColumn(section, column);
+  return target ? { sectionId: section.id, columnId: target.id } : undefined;
+};
+
+/** Where a card from `from` goes when snoozed into Icebox or Backlog. */
+export const snoozeLocation = (
+  sections: Section[],
+  from: TaskLocation,
+  target: SnoozeTarget
+): TaskLocation | undefined =>
+  matchingLocation(sections, from, findSectionLike(sections, target));
+
+/**
+ * "🔥 Current", or the first section that isn't finished or a snooze target
+ * when that's gone.
+ */
+export const selectCurrentSection = (sections: Section[]) =>
+  findSectionLike(sections, CURRENT_SECTION_ID) ??
+  sections.find(
+    (section) =>
+      section.id !== FINISHED_SECTION_ID &&
+      !SNOOZE_TARGETS.includes(section.id as SnoozeTarget) &&
+      section.columns.length > 0
+  );
+
+/** Where a snoozed card in `from` goes when it wakes up. */
+export const wakeLocation = (
+  sections: Section[],
+  from: TaskLocation
+): TaskLocation | undefined =>
+  matchingLocation(sections, from, selectCurrentSection(sections));
+
+/** Open snoozed cards whose date is `today` or earlier, in board order. */
+export const selectDueSnoozed = (sections: Section[], today: string) =>
+  selectAllTasks(sections).filter(
+    ({ task }) =>
+      !task.completed && !!task.snoozedUntil && task.snoozedUntil <= today
+  );
+
+/**
+ * A section, column or task title reduced for matching. Titles typed by hand
+ * usually leave out the emoji in "📋 Backlog".
+ */
+export const normalizeTitle = (title: string) =>
+  title
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .trim()
+    .toLowerCase();
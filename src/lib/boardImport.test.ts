@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import type { BoardData, Section } from "../types";
+import { DEFAULT_BOARD, selectColumn } from "./board";
+import { applyBoardImport, planBoardImport } from "./boardImport";
+import { column, QUICKIE, section, task } from "./testing";
+
+const current = section(
+  "current",
+  "🔥 Current",
+  column("quickie", "Quickie", task("a"), task("b")),
+  column("errand", "Errand", task("c"))
+);
+const board: BoardData = { ...DEFAULT_BOARD, sections: [current] };
+
+/** The same section exported from another copy of the board. */
+const incoming = section(
+  "other-current",
+  "Current",
+  column(
+    "other-quickie",
+    "quickie",
+    task("a", { title: "Renamed" }),
+    task("d")
+  ),
+  column("other-project", "Project", task("e"))
+);
+
+const ids = (section: Section) =>
+  section.columns.map((col) => [col.id, ...col.tasks.map((t) => t.id)]);
+
+describe("planBoardImport", () => {
+  const [plan] = planBoardImport(board.sections, [incoming]);
+
+  it("matches sections and columns by title when the ids differ", () => {
+    expect(plan.target?.id).toBe("current");
+    expect(ids(plan.results.merge)).toEqual([
+      ["quickie", "a", "b", "d"],
+      ["errand", "c"],
+      ["other-project", "e"],
+    ]);
+    expect(ids(plan.results.replace)).toEqual([
+      ["quickie", "a", "d"],
+      ["other-project", "e"],
+    ]);
+  });
+
+  it("lists what each mode adds, updates and removes", () => {
+    const summary = (mode: "merge" | "replace") => {
+      const diff = plan.diffs[mode];
+      return {
+        added: diff.added.map((entry) => entry.task.id),
+        updated: diff.updated.map((entry) => entry.task.id),
+        removed: diff.removed.map((entry) => entry.task.id),
+      };
+    };
+    expect(summary("merge")).toEqual({
+      added: ["d", "e"],
+      updated: ["a"],
+      removed: [],
+    });
+    expect(summary("replace")).toEqual({
+      added: ["d", "e"],
+      updated: ["a"],
+      removed: ["b", "c"],
+    });
+  });
+
+  it("adds sections the board doesn't have as they are", () => {
+    const garden = section("garden", "Garden");
+    const [gardenPlan] = planBoardImport(board.sections, [garden]);
+    expect(gardenPlan.target).toBeNull();
+    expect(gardenPlan.results.merge).toBe(garden);
+  });
+});
+
+describe("planBoardImport clashes", () => {
+  const backlog = section(
+    "backlog",
+    "Backlog",
+    column("backlog-quickie", "Quickie", task("x"))
+  );
+  const withBacklog = [current, backlog];
+
+  it("gives imported columns fresh ids when theirs are taken", () => {
+    const [merged, added] = planBoardImport(withBacklog, [
+      section(
+        "current",
+        "Current",
+        column("backlog-quickie", "Someday", task("d"))
+      ),
+      section("garden", "Garden", column("errand", "Beds", task("e"))),
+    ]);
+    const someday = merged.results.merge.columns.at(-1)!;
+    expect(someday.title).toBe("Someday");
+    expect(someday.id).not.toBe("backlog-quickie");
+    expect(someday.tasks.map((t) => t.id)).toEqual(["d"]);
+    expect(merged.results.replace.columns[0].id).not.toBe("backlog-quickie");
+
+    expect(added.target).toBeNull();
+    expect(added.results.merge.id).toBe("garden");
+    expect(added.results.merge.columns[0].id).not.toBe("errand");
+    expect(added.results.replace).toBe(added.results.merge);
+  });
+
+  it("merges imported sections that match the same one", () => {
+    const plans = planBoardImport(withBacklog, [
+      section("current", "Current", column("quickie", "Quickie", task("d"))),
+      section("other", "🔥 current", column("errand", "Errand", task("e"))),
+    ]);
+    expect(plans).toHaveLength(1);
+    expect(ids(plans[0].results.merge)).toEqual([
+      ["quickie", "a", "b", "d"],
+      ["errand", "c", "e"],
+    ]);
+  });
+});
+
+describe("applyBoardImport", () => {
+  it("applies the chosen mode and skips the rest", () => {
+    const garden = section(
+      "garden",
+      "Garden",
+      column("beds", "Beds", task("f"))
+    );
+    const imported = { ...DEFAULT_BOARD, sections: [incoming, garden] };
+    const plans = planBoardImport(board.sections, imported.sections);
+
+    const merged = applyBoardImport(board, imported, plans, {
+      "other-current": "merge",
+      garden: "skip",
+    });
+    expect(merged.sections.map(ids)).toEqual([ids(plans[0].results.merge)]);
+
+    const replaced = applyBoardImport(board, imported, plans, {
+      "other-current": "replace",
+      garden: "merge",
+    });
+    expect(replaced.sections.map((s) => s.id)).toEqual(["current", "garden"]);
+    expect(
+      selectColumn(replaced.sections, QUICKIE)?.tasks.map((t) => t.title)
+    ).toEqual(["Renamed", "Task d"]);
+  });
+});
@@ -0,0 +1,254 @@
+import type { BoardData, Column, Section, Task } from "../types";
+import { normalizeTitle, selectAllTasks } from "./board";
+import { createId } from "./ids";
+
+export type SectionImportMode = "replace" | "merge" | "skip";
+
+export interface DiffEntry {
+  task: Task;
+  /** Title of the column the task ends up in, or was removed from. */
+  column: string;
+}
+
+export interface SectionDiff {
+  added: DiffEntry[];
+  updated: DiffEntry[];
+  removed: DiffEntry[];
+}
+
+export interface SectionImportPlan {
+  incoming: Section;
+  /** The section on the current board it matches by id or title. */
+  target: Section | null;
+  /** The section as it would look after merging or replacing. */
+  results: Record<"merge" | "replace", Section>;
+  diffs: Record<"merge" | "replace", SectionDiff>;
+}
+
+const matchById = <T extends { id: string; title: string }>(
+  items: T[],
+  item: { id: string; title: string }
+): T | undefined =>
+  items.find((candidate) => candidate.id === item.id) ??
+  items.find(
+    (candidate) =>
+      normalizeTitle(candidate.title) === normalizeTitle(item.title)
+  );
+
+/** `item`, or a copy with a fresh id when `used` already has its id. */
+const withFreeId = <T extends { id: string }>(
+  item: T,
+  used: Set<string>,
+  prefix: string
+): T => (used.has(item.id) ? { ...item, id: createId(prefix) } : item);
+
+/**
+ * `incoming` merged into `target`. Columns it adds get a fresh id when the
+ * board already has a column with theirs.
+ */
+const mergeSection = (
+  target: Section,
+  incoming: Section,
+  usedColumnIds = new Set<string>()
+): Section => {
+  const incomingTasks = new Map<string, { task: Task; columnId: string }>();
+  const addedColumns: Column[] = [];
+  incoming.columns.forEach((col) => {
+    const match = matchById(target.columns, col);
+    const column = match ?? withFreeId(col, usedColumnIds, "col");
+    if (!match) addedColumns.push(column);
+    col.tasks.forEach((task) =>
+      incomingTasks.set(task.id, { task, columnId: column.id })
+    );
+  });
+
+  const columns = target.columns.map((col) => {
+    // Imported versions replace ours in place, or leave for their column
+    const kept = col.tasks.flatMap((task) => {
+      const imported = incomingTasks.get(task.id);
+      if (!imported) return [task];
+      return imported.columnId === col.id ? [imported.task] : [];
+    });
+    const arriving = [...incomingTasks.values()]
+      .filter(
+        ({ task, columnId }) =>
+          columnId === col.id && !kept.some((t) => t.id === task.id)
+      )
+      .map(({ task }) => task);
+    return { ...col, tasks: [...kept, ...arriving] };
+  });
+
+  return { ...target, columns: [...columns, ...addedColumns] };
+};
+
+const replaceSection = (
+  target: Section,
+  incoming: Section,
+  usedColumnIds: Set<string>
+): Section => ({
+  id: target.id,
+  title: incoming.title,
+  columns: incoming.columns.map((col) => {
+    const match = matchById(target.columns, col);
+    return match
+      ? { ...col, id: match.id }
+      : withFreeId(col, usedColumnIds, "col");
+  }),
+});
+
+/** A section the board doesn't have, with fresh ids for taken column ids. */
+const addSection = (section: Section, usedColumnIds: Set<string>): Section => {
+  const columns = section.columns.map((col) =>
+    withFreeId(col, usedColumnIds, "col")
+  );
+  return columns.every((col, i) => col === section.columns[i])
+    ? section
+    : { ...section, columns };
+};
+
+const diffSection = (
+  current: Section[],
+  before: Section | null,
+  after: Section
+): SectionDiff => {
+  const existing = new Map(
+    selectAllTasks(current).map(({ task, location }) => [
+      task.id,
+      { task, location },
+    ])
+  );
+  const afterIds = new Set<string>();
+  const diff: SectionDiff = { added: [], updated: [], removed: [] };
+
+  after.columns.forEach((col) =>
+    col.tasks.forEach((task) => {
+      afterIds.add(task.id);
+      const previous = existing.get(task.id);
+      if (!previous) {
+        diff.added.push({ task, column: col.title });
+      } else if (
+        previous.location.sectionId !== after.id ||
+        previous.location.columnId !== col.id ||
+        JSON.stringify(previous.task) !== JSON.stringify(task)
+      ) {
+        diff.updated.push({ task, column: col.title });
+      }
+    })
+  );
+  before?.columns.forEach((col) =>
+    col.tasks.forEach((task) => {
+      if (!afterIds.has(task.id)) {
+        diff.removed.push({ task, column: col.title });
+      }
+    })
+  );
+  return diff;
+};
+
+/**
+ * Matches each section of an imported board to the current one, by id and
+ * then by title, and works out what merging or replacing it would change.
+ * Imported sections that match the same one are merged into one plan, under
+ * the first one's id.
+ */
+export const planBoardImport = (
+  current: Section[],
+  incoming: Section[]
+): SectionImportPlan[] => {
+  const usedColumnIds = new Set(
+    current.flatMap((section) => section.columns.map((col) => col.id))
+  );
+
+  const matched: { section: Section; target: Section | null }[] = [];
+  incoming.forEach((section) => {
+    const target = matchById(current, section) ?? null;
+    const earlier = target && matched.find((m) => m.target?.id === target.id);
+    if (earlier) {
+      earlier.section = mergeSection(earlier.section, section);
+    } else {
+      matched.push({ section, target });
+    }
+  });
+
+  return matched.map(({ section, target }) => {
+    let results: SectionImportPlan["results"];
+    if (target) {
+      results = {
+        merge: mergeSection(target, section, usedColumnIds),
+        replace: replaceSection(target, section, usedColumnIds),
+      };
+    } else {
+      const added = addSection(section, usedColumnIds);
+      results = { merge: added, replace: added };
+    }
+    return {
+      incoming: section,
+      target,
+      results,
+      diffs: {
+        merge: diffSection(current, target, results.merge),
+        replace: diffSection(current, target, results.replace),
+      },
+    };
+  });
+};
+
+/**
+ * Applies the chosen mode per imported section (keyed by the imported
+ * section's id). A task belongs to the section that imported it, so it is
+ * dropped from wherever else it was. Archived weeks and scheduled recurring
+ * tasks the board doesn't have yet are added.
+ */
+export const applyBoardImport = (
+  board: BoardData,
+  incoming: BoardData,
+  plans: SectionImportPlan[],
+  modes: Record<string, SectionImportMode>
+): BoardData => {
+  const chosen = plans.flatMap((plan) => {
+    const mode = modes[plan.incoming.id];
+    return mode && mode !== "skip"
+      ? [{ plan, section: plan.results[mode] }]
+      : [];
+  });
+
+  const owner = new Map<string, string>();
+  chosen.forEach(({ section }) =>
+    section.columns.forEach((col) =>
+      col.tasks.forEach((task) => owner.set(task.id, section.id))
+    )
+  );
+
+  const sections = [
+    ...board.sections.map(
+      (section) =>
+        chosen.find(({ plan }) => plan.target?.id === section.id)?.section ??
+        section
+    ),
+    ...chosen.filter(({ plan }) => !plan.target).map(({ section }) => section),
+  ].map((section) => ({
+    ...section,
+    columns: section.columns.map((col) => ({
+      ...col,
+      tasks: col.tasks.filter(
+        (task) => (owner.get(task.id) ?? section.id) === section.id
+      ),
+    })),
+  }));
+
+  return {
+    ...board,
+    sections,
+    archive: {
+      ...board.archive,
+      weeks: { ...incoming.archive.weeks, ...board.archive.weeks },
+    },
+    scheduled: [
+      ...board.scheduled,
+      ...incoming.scheduled.filter(
+        (entry) =>
+          !board.scheduled.some((own) => own.sourceId === entry.sourceId)
+      ),
+    ],
+  };
+};
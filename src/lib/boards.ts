@@ -0,0 +1,106 @@
+import type { BoardData } from "../types";
+import {
+  isRecord,
+  parseBoardData,
+  SchemaError,
+  type SchemaIssue,
+} from "./schema";
+
+export interface BoardSummary {
+  id: string;
+  name: string;
+}
+
+/** Every board the user has, in switcher order. */
+export interface BoardList {
+  boards: BoardSummary[];
+}
+
+const BUNDLE_KIND = "focustask-boards";
+
+/** All boards in one export file. */
+export interface BoardBundle {
+  kind: typeof BUNDLE_KIND;
+  boards: { name: string; board: BoardData }[];
+}
+
+export const parseBoardList = (raw: unknown): BoardList => {
+  const issues: SchemaIssue[] = [];
+  if (!isRecord(raw) || !Array.isArray(raw.boards)) {
+    issues.push({ path: "boards", message: "expected a list of boards" });
+  } else {
+    raw.boards.forEach((board, i) => {
+      if (
+        !isRecord(board) ||
+        typeof board.id !== "string" ||
+        typeof board.name !== "string"
+      ) {
+        issues.push({ path: `boards[${i}]`, message: "expected id and name" });
+      }
+    });
+    if (raw.boards.length === 0) {
+      issues.push({ path: "boards", message: "expected at least one board" });
+    }
+  }
+  if (issues.length > 0) throw new SchemaError(issues);
+  return raw as unknown as BoardList;
+};
+
+/** "Work", or "Work (2)" when that name is taken. */
+export const uniqueBoardName = (boards: BoardSummary[], name: string) => {
+  const base = name.trim() || "Untitled board";
+  const taken = new Set(boards.map((board) => board.name));
+  let candidate = base;
+  for (let n = 2; taken.has(candidate); n += 1) {
+    candidate = `${base} (${n})`;
+  }
+  return candidate;
+};
+
+export const createBundle = (
+  boards: { name: string; board: BoardData }[]
+): BoardBundle => ({ kind: BUNDLE_KIND, boards });
+
+export const isBoardBundle = (raw: unknown): boolean =>
+  isRecord(raw) && raw.kind === BUNDLE_KIND;
+
+/**
+ * Reads an all-boards export, migrating each board like a single-board
+ * import. Issues are reported with the board's position in the file.
+ */
+export const parseBoardBundle = (
+  raw: unknown
+):
+  | { ok: true; boards: { name: string; board: BoardData }[] }
+  | { ok: false; errors: SchemaIssue[] } => {
+  if (!isRecord(raw) || !Array.isArray(raw.boards)) {
+    return {
+      ok: false,
+      errors: [{ path: "boards", message: "expected a list of boards" }],
+    };
+  }
+  const errors: SchemaIssue[] = [];
+  const boards = raw.boards.flatMap((entry: unknown, i) => {
+    const path = `boards[${i}]`;
+    if (!isRecord(entry) || typeof entry.name !== "string") {
+      errors.push({ path: `${path}.name`, message: "expected a string" });
+      return [];
+    }
+    const result = parseBoardData(entry.board);
+    if (!result.ok) {
+      errors.push(
+        ...result.errors.map((issue) => ({
+          ...issue,
+          path: `${path}.board.${issue.path}`,
+        }))
+      );
+      return [];
+    }
+    return [{ name: entry.name, board: result.data }];
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, boards };
+};
+
+/** A board name from an export's file name, e.g. "work" from "work.json". */
+export const boardNameFromFile = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ");
@@ -0,0 +1,23 @@
+/** Local calendar date as "YYYY-MM-DD". */
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const isOverdue = (
+  dueDate: string | undefined,
+  today: string = toDateKey(new Date())
+): boolean => !!dueDate && dueDate < today;
+
+export const formatDueDate = (dueDate: string): string => {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  const sameYear = year === new Date().getFullYear();
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+  });
+};
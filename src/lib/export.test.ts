@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BOARD } from "./board";
+import { boardToCsv, exportBoard } from "./export";
+import { column, section, task } from "./testing";
+
+describe("boardToCsv", () => {
+  it("writes a row per task under a header", () => {
+    const csv = boardToCsv([
+      section(
+        "current",
+        "Current",
+        column(
+          "errand",
+          "Errand",
+          task("a", {
+            title: "Buy milk",
+            completed: true,
+            dueDate: "2025-07-01",
+            labels: ["red", "blue"],
+            recurrence: { kind: "weekly", days: [1, 4] },
+          })
+        )
+      ),
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "section,column,title,completed,due,labels,repeats",
+      'Current,Errand,Buy milk,true,2025-07-01,red blue,"Weekly on Mon, Thu"',
+    ]);
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    const csv = boardToCsv([
+      section(
+        "s",
+        "Home, garden",
+        column(
+          "c",
+          'The "big" ones',
+          task("a", { title: "Line one\nline two" }),
+          task("b", { title: "Plain" })
+        )
+      ),
+    ]);
+    expect(csv.split("\r\n").slice(1)).toEqual([
+      '"Home, garden","The ""big"" ones","Line one\nline two",false,,,',
+      '"Home, garden","The ""big"" ones",Plain,false,,,',
+    ]);
+  });
+});
+
+describe("exportBoard", () => {
+  const board = {
+    ...DEFAULT_BOARD,
+    sections: [
+      section(
+        "current",
+        "Current",
+        column("c", "C", task("a"), task("b", { completed: true }))
+      ),
+      section("backlog", "Backlog", column("d", "D", task("c"))),
+    ],
+  };
+
+  it("exports only the chosen sections, without completed cards if asked", () => {
+    const { content, mimeType, extension } = exportBoard(board, {
+      format: "json",
+      includeCompleted: false,
+      sectionIds: ["current"],
+    });
+    expect({ mimeType, extension }).toEqual({
+      mimeType: "application/json",
+      extension: "json",
+    });
+    expect(JSON.parse(content).sections).toEqual([
+      section("current", "Current", column("c", "C", task("a"))),
+    ]);
+  });
+});
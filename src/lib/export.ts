@@ -0,0 +1,106 @@
+import type { BoardData, Section } from "../types";
+import { boardToMarkdown } from "./markdown";
+import { describeRecurrence } from "./recurrence";
+import { SCHEMA_VERSION } from "./schema";
+
+export type ExportFormat = "markdown" | "csv" | "json";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeCompleted: boolean;
+  /** Sections to export, in board order. */
+  sectionIds: string[];
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+const CSV_HEADER = [
+  "section",
+  "column",
+  "title",
+  "completed",
+  "due",
+  "labels",
+  "repeats",
+];
+
+const csvField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** One row per task, for spreadsheets. */
+export const boardToCsv = (sections: Section[]): string =>
+  [
+    CSV_HEADER,
+    ...sections.flatMap((section) =>
+      section.columns.flatMap((column) =>
+        column.tasks.map((task) => [
+          section.title,
+          column.title,
+          task.title,
+          task.completed ? "true" : "false",
+          task.dueDate ?? "",
+          (task.labels ?? []).join(" "),
+          task.recurrence ? describeRecurrence(task.recurrence) : "",
+        ])
+      )
+    ),
+  ]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+
+const selectSections = (sections: Section[], options: ExportOptions) =>
+  sections
+    .filter((section) => options.sectionIds.includes(section.id))
+    .map((section) =>
+      options.includeCompleted
+        ? section
+        : {
+            ...section,
+            columns: section.columns.map((col) => ({
+              ...col,
+              tasks: col.tasks.filter((task) => !task.completed),
+            })),
+          }
+    );
+
+export const exportBoard = (
+  board: BoardData,
+  options: ExportOptions
+): ExportFile => {
+  const sections = selectSections(board.sections, options);
+  switch (options.format) {
+    case "markdown":
+      return {
+        content: boardToMarkdown(sections),
+        mimeType: "text/markdown",
+        extension: "md",
+      };
+    case "csv":
+      return {
+        content: boardToCsv(sections),
+        mimeType: "text/csv",
+        extension: "csv",
+      };
+    case "json":
+      return {
+        content: JSON.stringify(
+          {
+            ...board,
+            version: SCHEMA_VERSION,
+            sections,
+            scheduled: board.scheduled.filter((entry) =>
+              options.sectionIds.includes(entry.sectionId)
+            ),
+          },
+          null,
+          2
+        ),
+        mimeType: "application/json",
+        extension: "json",
+      };
+  }
+};
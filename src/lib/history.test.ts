@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  emptyStacks,
+  HISTORY_LIMIT,
+  MERGE_WINDOW_MS,
+  recordChange,
+  redo,
+  undo,
+} from "./history";
+
+const typing = { label: "Task renamed", mergeKey: "rename:a" };
+
+describe("recordChange", () => {
+  it("pushes the previous state and clears what could be redone", () => {
+    const stacks = recordChange(
+      { ...emptyStacks<string>(), future: [{ state: "c", label: "Later" }] },
+      "a",
+      { label: "Task added" },
+      1000
+    );
+    expect(stacks).toEqual({
+      past: [{ state: "a", label: "Task added" }],
+      future: [],
+      lastMergeKey: null,
+      lastChangeAt: 1000,
+    });
+  });
+
+  it("coalesces quick changes with the same merge key into one step", () => {
+    const first = recordChange(emptyStacks<string>(), "a", typing, 1000);
+    const second = recordChange(
+      first,
+      "ab",
+      typing,
+      1000 + MERGE_WINDOW_MS - 1
+    );
+    expect(second.past).toEqual([{ state: "a", label: "Task renamed" }]);
+    expect(second.lastChangeAt).toBe(1000 + MERGE_WINDOW_MS - 1);
+  });
+
+  it("starts a new step after a pause or for another key", () => {
+    const first = recordChange(emptyStacks<string>(), "a", typing, 1000);
+    const later = recordChange(first, "ab", typing, 1000 + MERGE_WINDOW_MS);
+    const other = recordChange(
+      first,
+      "ab",
+      { label: "Task renamed", mergeKey: "rename:b" },
+      1001
+    );
+    const unkeyed = recordChange(first, "ab", { label: "Task moved" }, 1001);
+    expect(later.past).toHaveLength(2);
+    expect(other.past).toHaveLength(2);
+    expect(unkeyed.past).toHaveLength(2);
+  });
+
+  it(`keeps the last ${HISTORY_LIMIT} steps`, () => {
+    let stacks = emptyStacks<number>();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      stacks = recordChange(stacks, i, { label: `Change ${i}` });
+    }
+    expect(stacks.past).toHaveLength(HISTORY_LIMIT);
+    expect(stacks.past[0].state).toBe(5);
+  });
+});
+
+describe("undo and redo", () => {
+  it("walk back and forth between the states", () => {
+    const stacks = recordChange(
+      emptyStacks<string>(),
+      "a",
+      { label: "Task added" },
+      1000
+    );
+    const undone = undo(stacks, "b")!;
+    expect(undone.entry).toEqual({ state: "a", label: "Task added" });
+    expect(undone.stacks.future).toEqual([{ state: "b", label: "Task added" }]);
+
+    const redone = redo(undone.stacks, "a")!;
+    expect(redone.entry).toEqual({ state: "b", label: "Task added" });
+    expect(redone.stacks.past).toEqual(stacks.past);
+    expect(redone.stacks.future).toEqual([]);
+  });
+
+  it("stop a typing burst from merging into an undone step", () => {
+    const stacks = recordChange(emptyStacks<string>(), "a", typing, 1000);
+    const { stacks: undone } = undo(stacks, "ab")!;
+    expect(recordChange(undone, "a", typing, 1001).past).toHaveLength(1);
+  });
+
+  it("have nothing to do on empty stacks", () => {
+    expect(undo(emptyStacks<string>(), "a")).toBeNull();
+    expect(redo(emptyStacks<string>(), "a")).toBeNull();
+  });
+});
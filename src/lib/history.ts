@@ -0,0 +1,84 @@
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+export interface UndoStacks<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  /** Merge key and time of the most recent change, used to coalesce edits. */
+  lastMergeKey: string | null;
+  lastChangeAt: number;
+}
+
+export interface ChangeOptions {
+  label: string;
+  /** Consecutive changes sharing a merge key collapse into one undo step. */
+  mergeKey?: string;
+}
+
+export const HISTORY_LIMIT = 50;
+export const MERGE_WINDOW_MS = 5000;
+
+export const emptyStacks = <T>(): UndoStacks<T> => ({
+  past: [],
+  future: [],
+  lastMergeKey: null,
+  lastChangeAt: 0,
+});
+
+export const recordChange = <T>(
+  stacks: UndoStacks<T>,
+  previous: T,
+  { label, mergeKey }: ChangeOptions,
+  now: number = Date.now()
+): UndoStacks<T> => {
+  const merges =
+    mergeKey !== undefined &&
+    mergeKey === stacks.lastMergeKey &&
+    now - stacks.lastChangeAt < MERGE_WINDOW_MS &&
+    stacks.past.length > 0;
+
+  return {
+    past: merges
+      ? stacks.past
+      : [...stacks.past, { state: previous, label }].slice(-HISTORY_LIMIT),
+    future: [],
+    lastMergeKey: mergeKey ?? null,
+    lastChangeAt: now,
+  };
+};
+
+export const undo = <T>(
+  stacks: UndoStacks<T>,
+  present: T
+): { stacks: UndoStacks<T>; entry: HistoryEntry<T> } | null => {
+  const entry = stacks.past[stacks.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    stacks: {
+      past: stacks.past.slice(0, -1),
+      future: [{ state: present, label: entry.label }, ...stacks.future],
+      lastMergeKey: null,
+      lastChangeAt: 0,
+    },
+  };
+};
+
+export const redo = <T>(
+  stacks: UndoStacks<T>,
+  present: T
+): { stacks: UndoStacks<T>; entry: HistoryEntry<T> } | null => {
+  const [entry, ...future] = stacks.future;
+  if (!entry) return null;
+  return {
+    entry,
+    stacks: {
+      past: [...stacks.past, { state: present, label: entry.label }],
+      future,
+      lastMergeKey: null,
+      lastChangeAt: 0,
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import type { BoardData, Column, Task } from "../types";
+
+let counter = 0;
+
+/**
+ * Returns a collision-free id such as `task-1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed`.
+ * `crypto.randomUUID` is only available in secure contexts, so plain-http
+ * hosts fall back to time, a per-session counter and randomness.
+ */
+export const createId = (prefix: string): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return `${prefix}-${crypto.randomUUID()}`;
+  }
+  counter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${counter.toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+};
+
+/**
+ * Rewrites ids that appear more than once. Sections, columns and tasks are
+ * each unique across the whole board; archived tasks share the task id space
+ * so they can be restored without clashing. Returns how many ids changed.
+ */
+export const dedupeIds = (
+  board: BoardData
+): { board: BoardData; renamed: number } => {
+  let renamed = 0;
+  const unique = (seen: Set<string>, id: string, prefix: string) => {
+    if (!seen.has(id)) {
+      seen.add(id);
+      return id;
+    }
+    renamed += 1;
+    const fresh = createId(prefix);
+    seen.add(fresh);
+    return fresh;
+  };
+
+  const sectionIds = new Set<string>();
+  const columnIds = new Set<string>();
+  const taskIds = new Set<string>();
+
+  const dedupeTasks = (tasks: Task[]) =>
+    tasks.map((task) => {
+      const id = unique(taskIds, task.id, "task");
+      return id === task.id ? task : { ...task, id };
+    });
+
+  const dedupeColumn = (col: Column): Column => {
+    const id = unique(columnIds, col.id, "col");
+    return { ...col, id, tasks: dedupeTasks(col.tasks) };
+  };
+
+  const sections = board.sections.map((section) => ({
+    ...section,
+    id: unique(sectionIds, section.id, "section"),
+    columns: section.columns.map(dedupeColumn),
+  }));
+
+  const weeks = Object.fromEntries(
+    Object.entries(board.archive.weeks).map(([key, week]) => [
+      key,
+      {
+        ...week,
+        days: week.days.map((day) => ({
+          ...day,
+          tasks: dedupeTasks(day.tasks),
+        })),
+      },
+    ])
+  );
+
+  if (renamed === 0) return { board, renamed };
+  return {
+    board: { ...board, sections, archive: { ...board.archive, weeks } },
+    renamed,
+  };
+};
@@ -0,0 +1,11 @@
+import type { LabelColor } from "../types";
+
+/** Tailwind classes per label colour, spelled out so the classes get built. */
+export const LABEL_CLASSES: Record<LabelColor, string> = {
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+};
@@ -0,0 +1,240 @@
+import { describe, expect, it } from "vitest";
+import { selectColumn } from "./board";
+import {
+  applyMarkdownImport,
+  parseMarkdown,
+  planMarkdownImport,
+  readTaskInput,
+  sectionToMarkdown,
+  splitTaskLines,
+  taskToMarkdown,
+} from "./markdown";
+import { boardWith, column, ERRANDS, section, task } from "./testing";
+
+describe("taskToMarkdown", () => {
+  it("writes a checklist line with the details as tokens", () => {
+    expect(
+      taskToMarkdown(
+        task("a", {
+          title: "Pay rent",
+          completed: true,
+          dueDate: "2025-07-01",
+          labels: ["red", "blue"],
+        })
+      )
+    ).toEqual(["- [x] Pay rent due:2025-07-01 #red #blue"]);
+  });
+
+  it("indents the description and checklist under the item", () => {
+    expect(
+      taskToMarkdown(
+        task("a", {
+          title: "Pack",
+          description: "For the trip\n\nDon't forget",
+          checklist: [
+            { id: "1", text: "Socks", done: true },
+            { id: "2", text: "Charger", done: false },
+          ],
+        })
+      )
+    ).toEqual([
+      "- [ ] Pack",
+      "  > For the trip",
+      "  >",
+      "  > Don't forget",
+      "  - [x] Socks",
+      "  - [ ] Charger",
+    ]);
+  });
+});
+
+describe("sectionToMarkdown", () => {
+  it("prefixes every item with its column", () => {
+    const current = section(
+      "current",
+      "🔥 Current",
+      column("quickie", "Quickie", task("a"), task("b")),
+      column("errand", "Errand"),
+      column("chore", "Chore", task("c"))
+    );
+    expect(sectionToMarkdown(current)).toBe(
+      [
+        "- [ ] Quickie: Task a",
+        "- [ ] Quickie: Task b",
+        "- [ ] Chore: Task c",
+      ].join("\n")
+    );
+  });
+});
+
+/** Column title and task titles of every parsed column, section by section. */
+const outline = (source: string, columnTitles?: () => string[]) =>
+  parseMarkdown(source, columnTitles).map((section) => ({
+    title: section.title,
+    columns: section.columns.map((col) => [
+      col.title,
+      ...col.tasks.map((t) => t.title),
+    ]),
+  }));
+
+describe("parseMarkdown", () => {
+  it("reads headings as sections and columns", () => {
+    const source = [
+      "# Current",
+      "## Errand",
+      "- [ ] Buy milk due:2025-07-01 #green",
+      "  > From the corner shop",
+      "  - [x] Check the fridge",
+      "- [x] Post letter",
+      "# Backlog",
+      "- [ ] Someday",
+    ].join("\n");
+    expect(outline(source)).toEqual([
+      { title: "Current", columns: [["Errand", "Buy milk", "Post letter"]] },
+      { title: "Backlog", columns: [[null, "Someday"]] },
+    ]);
+    const [milk, letter] = parseMarkdown(source)[0].columns[0].tasks;
+    expect(milk).toMatchObject({
+      completed: false,
+      dueDate: "2025-07-01",
+      labels: ["green"],
+      description: "From the corner shop",
+      checklist: [{ text: "Check the fridge", done: true }],
+    });
+    expect(letter.completed).toBe(true);
+  });
+
+  it("keeps a colon in the title when it doesn't name a column", () => {
+    expect(outline("- [ ] Call Bob: about invoice")).toEqual([
+      { title: null, columns: [[null, "Call Bob: about invoice"]] },
+    ]);
+    expect(
+      outline("- [ ] Call Bob: about invoice\n- [ ] Chore: Vacuum")
+    ).toEqual([
+      {
+        title: null,
+        columns: [[null, "Call Bob: about invoice", "Chore: Vacuum"]],
+      },
+    ]);
+  });
+
+  it("reads prefixes that name a known column", () => {
+    expect(
+      outline("- [ ] Call Bob: about invoice\n- [ ] Chore: Vacuum", () => [
+        "Quickie",
+        "Chore",
+      ])
+    ).toEqual([
+      {
+        title: null,
+        columns: [
+          [null, "Call Bob: about invoice"],
+          ["Chore", "Vacuum"],
+        ],
+      },
+    ]);
+  });
+
+  it("reads back what sectionToMarkdown writes", () => {
+    const someday = section(
+      "s",
+      "Someday",
+      column("a", "Reading", task("1"), task("2")),
+      column("b", "Trips", task("3"))
+    );
+    expect(outline(sectionToMarkdown(someday))).toEqual([
+      {
+        title: null,
+        columns: [
+          ["Reading", "Task 1", "Task 2"],
+          ["Trips", "Task 3"],
+        ],
+      },
+    ]);
+  });
+});
+
+describe("planMarkdownImport", () => {
+  const { sections } = boardWith(ERRANDS, task("milk", { title: "Buy milk" }));
+
+  it("matches sections and columns by title and flags duplicates", () => {
+    const plan = planMarkdownImport(
+      sections,
+      parseMarkdown(
+        "# 🔥 Current\n## errand\n- [ ] buy milk\n- [ ] Post letter\n# Garden\n- [ ] Weed"
+      ),
+      "current"
+    );
+    expect(
+      plan.map((s) => ({
+        title: s.title,
+        isNew: s.isNew,
+        columns: s.columns.map((col) => ({
+          title: col.title,
+          isNew: col.isNew,
+          duplicates: col.tasks.map((t) => t.duplicate),
+        })),
+      }))
+    ).toEqual([
+      {
+        title: "🔥 Current",
+        isNew: false,
+        columns: [{ title: "Errand", isNew: false, duplicates: [true, false] }],
+      },
+      {
+        title: "Garden",
+        isNew: true,
+        columns: [{ title: "Imported", isNew: true, duplicates: [false] }],
+      },
+    ]);
+
+    const merged = applyMarkdownImport(sections, plan, "merge");
+    expect(selectColumn(merged, ERRANDS)?.tasks.map((t) => t.title)).toEqual([
+      "Buy milk",
+      "Post letter",
+    ]);
+    expect(merged.at(-1)?.title).toBe("Garden");
+  });
+});
+
+describe("splitTaskLines", () => {
+  it("drops bullets, numbers and blank lines and reads checkboxes", () => {
+    expect(
+      splitTaskLines(
+        "- [x] Pay rent\n\n* Call mum\n2) [ ] Book flights\n• Pack\n"
+      )
+    ).toEqual([
+      { title: "Pay rent", completed: true },
+      { title: "Call mum", completed: false },
+      { title: "Book flights", completed: false },
+      { title: "Pack", completed: false },
+    ]);
+  });
+
+  it("keeps a single checked line checked", () => {
+    expect(splitTaskLines("- [X] Pay rent\n")).toEqual([
+      { title: "Pay rent", completed: true },
+    ]);
+  });
+});
+
+describe("readTaskInput", () => {
+  it("cleans a single line into one card", () => {
+    expect(readTaskInput("* Buy milk")).toEqual({
+      lines: [{ title: "Buy milk", completed: false }],
+      asList: false,
+    });
+  });
+
+  it("adds a lone checked line as a list so it stays checked", () => {
+    expect(readTaskInput("- [x] Pay rent")).toEqual({
+      lines: [{ title: "Pay rent", completed: true }],
+      asList: true,
+    });
+  });
+
+  it("adds several lines as a list and nothing for blank text", () => {
+    expect(readTaskInput("Call mum\nPack").asList).toBe(true);
+    expect(readTaskInput("  \n ")).toEqual({ lines: [], asList: false });
+  });
+});
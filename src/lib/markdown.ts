@@ -0,0 +1,400 @@
+import {
+  LABEL_COLORS,
+  type LabelColor,
+  type Section,
+  type Task,
+} from "../types";
+import { normalizeTitle } from "./board";
+import { createId } from "./ids";
+import { parseRecurrenceToken, recurrenceToToken } from "./recurrence";
+
+/**
+ * One task as a Markdown checklist line. Due date, recurrence and labels go
+ * on the line as `due:`, `repeat:` and `#color` tokens; the description and
+ * checklist are indented below it so the item still reads as a single entry.
+ */
+export const taskToMarkdown = (task: Task, prefix = ""): string[] => {
+  const checkbox = task.completed ? "[x]" : "[ ]";
+  const tokens = [
+    task.dueDate && `due:${task.dueDate}`,
+    task.recurrence && `repeat:${recurrenceToToken(task.recurrence)}`,
+    ...(task.labels ?? []).map((label) => `#${label}`),
+  ].filter(Boolean);
+  const lines = [
+    `- ${checkbox} ${prefix}${task.title}${
+      tokens.length ? ` ${tokens.join(" ")}` : ""
+    }`,
+  ];
+
+  task.description
+    ?.trim()
+    .split("\n")
+    .forEach((line) => lines.push(`  > ${line}`.trimEnd()));
+  task.checklist?.forEach((item) =>
+    lines.push(`  - ${item.done ? "[x]" : "[ ]"} ${item.text}`)
+  );
+  return lines;
+};
+
+export const sectionToMarkdown = (section: Section): string =>
+  section.columns
+    .flatMap((column) =>
+      column.tasks.flatMap((task) => taskToMarkdown(task, `${column.title}: `))
+    )
+    .join("\n");
+
+export interface MarkdownColumn {
+  /** Null for tasks that came without a column. */
+  title: string | null;
+  tasks: Task[];
+}
+
+export interface MarkdownSection {
+  /** Null for tasks above the first heading. */
+  title: string | null;
+  columns: MarkdownColumn[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*$/;
+const ITEM_PATTERN = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const NOTE_PATTERN = /^\s+>\s?(.*)$/;
+const COLUMN_PREFIX_PATTERN = /^([^:]{1,40}):\s+(.+)$/;
+const LINE_PREFIX_PATTERN =
+  /^\s*(?:(?:[-*+•]|\d+[.)])(?:\s+|$))?(?:\[([ xX])\]\s*)?(.*?)\s*$/;
+
+/**
+ * One entry per non-blank line of pasted text, without the bullet
+ * (`-`, `*`, `1.`) or checkbox prefix. `[x]` marks the entry completed.
+ */
+export const splitTaskLines = (
+  text: string
+): { title: string; completed: boolean }[] =>
+  text.split(/\r?\n/).flatMap((line) => {
+    const [, checkbox, title] = LINE_PREFIX_PATTERN.exec(line)!;
+    return title ? [{ title, completed: checkbox?.toLowerCase() === "x" }] : [];
+  });
+
+/**
+ * What the add-card form makes of its text: the cleaned lines, and whether
+ * they go in as a list, which a lone checked-off line needs too.
+ */
+export const readTaskInput = (
+  text: string
+): { lines: { title: string; completed: boolean }[]; asList: boolean } => {
+  const lines = splitTaskLines(text);
+  return {
+    lines,
+    asList: lines.length > 1 || lines.some((line) => line.completed),
+  };
+};
+
+/** Reads the `due:`, `repeat:` and `#color` tokens `taskToMarkdown` appends. */
+const parseTaskLine = (text: string, completed: boolean): Task => {
+  const words = text.trim().split(/\s+/);
+  const task: Task = {
+    id: createId("task"),
+    title: "",
+    completed,
+    createdAt: new Date().toISOString(),
+  };
+  const labels: LabelColor[] = [];
+
+  while (words.length > 1) {
+    const word = words[words.length - 1];
+    const due = /^due:(\d{4}-\d{2}-\d{2})$/.exec(word);
+    const repeat = word.startsWith("repeat:")
+      ? parseRecurrenceToken(word.slice("repeat:".length))
+      : null;
+    const label = LABEL_COLORS.find((color) => word === `#${color}`);
+    if (due) {
+      task.dueDate = due[1];
+    } else if (repeat) {
+      task.recurrence = repeat;
+    } else if (label) {
+      labels.unshift(label);
+    } else {
+      break;
+    }
+    words.pop();
+  }
+
+  task.title = words.join(" ");
+  if (labels.length)
+    task.labels = LABEL_COLORS.filter((c) => labels.includes(c));
+  return task;
+};
+
+/**
+ * Reads Markdown checklists back into sections, columns and tasks: the
+ * top-level headings become sections, deeper headings columns, and
+ * `- [ ]` / `- [x]` items tasks.
+ *
+ * Without a column heading, a `Column: ` prefix on the item names the
+ * column when it is one of `columnTitles(section)`, or when every item
+ * under the heading has one and some share it, as `sectionToMarkdown`
+ * writes them. Otherwise the colon is just part of the title.
+ */
+export const parseMarkdown = (
+  source: string,
+  columnTitles: (sectionTitle: string | null) => string[] = () => []
+): MarkdownSection[] => {
+  const sections: MarkdownSection[] = [];
+  let sectionLevel: number | null = null;
+  let section: MarkdownSection | null = null;
+  let headingColumn: MarkdownColumn | null = null;
+  let task: Task | null = null;
+  // Items without a column heading, until it's clear what their prefix is
+  let pending: { task: Task; prefix: RegExpExecArray | null }[] = [];
+
+  const currentSection = () => {
+    if (!section) {
+      section = { title: null, columns: [] };
+      sections.push(section);
+    }
+    return section;
+  };
+
+  const columnFor = (title: string | null) => {
+    const target = currentSection();
+    let column = target.columns.find(
+      (col) => col.title?.toLowerCase() === title?.toLowerCase()
+    );
+    if (!column) {
+      column = { title, tasks: [] };
+      target.columns.push(column);
+    }
+    return column;
+  };
+
+  const placePending = () => {
+    if (pending.length === 0) return;
+    const known = new Set(
+      columnTitles(currentSection().title).map(normalizeTitle)
+    );
+    const prefixes = pending.map(({ prefix }) =>
+      prefix ? normalizeTitle(prefix[1]) : null
+    );
+    const written =
+      prefixes.every(Boolean) && new Set(prefixes).size < prefixes.length;
+    pending.forEach(({ task, prefix }) => {
+      const inColumn =
+        prefix && (written || known.has(normalizeTitle(prefix[1])));
+      if (inColumn) task.title = prefix[2];
+      columnFor(inColumn ? prefix[1].trim() : null).tasks.push(task);
+    });
+    pending = [];
+  };
+
+  source.split(/\r?\n/).forEach((line) => {
+    const heading = HEADING_PATTERN.exec(line);
+    const item = ITEM_PATTERN.exec(line);
+    const note = NOTE_PATTERN.exec(line);
+
+    if (heading) {
+      placePending();
+      const level = heading[1].length;
+      sectionLevel ??= level;
+      if (level <= sectionLevel) {
+        section = { title: heading[2], columns: [] };
+        sections.push(section);
+        headingColumn = null;
+      } else {
+        headingColumn = columnFor(heading[2]);
+      }
+      task = null;
+    } else if (item && item[1].length >= 2 && task) {
+      // Indented items belong to the task above as its checklist
+      const [, , mark, text] = item;
+      task.checklist = [
+        ...(task.checklist ?? []),
+        {
+          id: createId("item"),
+          text: text.trim(),
+          done: mark === "x" || mark === "X",
+        },
+      ];
+    } else if (item && item[3].trim()) {
+      const [, , mark, text] = item;
+      task = parseTaskLine(text, mark === "x" || mark === "X");
+      if (headingColumn) {
+        headingColumn.tasks.push(task);
+      } else {
+        pending.push({ task, prefix: COLUMN_PREFIX_PATTERN.exec(task.title) });
+      }
+    } else if (note && task) {
+      task.description = task.description
+        ? `${task.description}\n${note[1]}`
+        : note[1];
+    } else if (line.trim()) {
+      task = null;
+    }
+  });
+  placePending();
+
+  return sections.filter((s) => s.columns.some((col) => col.tasks.length > 0));
+};
+
+export interface ImportedTask {
+  task: Task;
+  /** Whether a task with the same title is already on the board. */
+  duplicate: boolean;
+}
+
+export interface ImportedColumn {
+  id: string;
+  title: string;
+  isNew: boolean;
+  tasks: ImportedTask[];
+}
+
+export interface ImportedSection {
+  id: string;
+  title: string;
+  isNew: boolean;
+  columns: ImportedColumn[];
+}
+
+/**
+ * The board section imported Markdown under `title` goes to, by title, or
+ * `fallbackSectionId` for tasks without a heading.
+ */
+export const findImportSection = (
+  sections: Section[],
+  title: string | null,
+  fallbackSectionId: string
+): Section | undefined =>
+  title === null
+    ? sections.find((s) => s.id === fallbackSectionId)
+    : sections.find((s) => normalizeTitle(s.title) === normalizeTitle(title));
+
+/**
+ * Matches parsed Markdown to the board by section and column title. Tasks
+ * without a heading go to `fallbackSectionId`, and unknown sections and
+ * columns are created.
+ */
+export const planMarkdownImport = (
+  sections: Section[],
+  parsed: MarkdownSection[],
+  fallbackSectionId: string
+): ImportedSection[] => {
+  const existingTitles = new Set(
+    sections.flatMap((section) =>
+      section.columns.flatMap((col) =>
+        col.tasks.map((task) => normalizeTitle(task.title))
+      )
+    )
+  );
+  const plan: ImportedSection[] = [];
+
+  parsed.forEach((parsedSection) => {
+    const match = findImportSection(
+      sections,
+      parsedSection.title,
+      fallbackSectionId
+    );
+    let target = plan.find((s) => s.id === match?.id);
+    if (!target) {
+      target = {
+        id: match?.id ?? createId("section"),
+        title: match?.title ?? parsedSection.title ?? "Imported",
+        isNew: !match,
+        columns: [],
+      };
+      plan.push(target);
+    }
+
+    parsedSection.columns.forEach((parsedColumn) => {
+      const existing =
+        parsedColumn.title === null
+          ? match?.columns[0]
+          : match?.columns.find(
+              (col) =>
+                normalizeTitle(col.title) ===
+                normalizeTitle(parsedColumn.title!)
+            );
+      let column = target.columns.find((col) => col.id === existing?.id);
+      if (!column) {
+        column = {
+          id: existing?.id ?? createId("col"),
+          title: existing?.title ?? parsedColumn.title ?? "Imported",
+          isNew: !existing,
+          tasks: [],
+        };
+        target.columns.push(column);
+      }
+      column.tasks.push(
+        ...parsedColumn.tasks.map((task) => ({
+          task,
+          duplicate: existingTitles.has(normalizeTitle(task.title)),
+        }))
+      );
+    });
+  });
+
+  return plan;
+};
+
+/**
+ * Applies an import plan. "merge" adds the tasks that aren't duplicates;
+ * "replace" swaps the contents of every imported section for what was
+ * imported, duplicates included.
+ */
+export const applyMarkdownImport = (
+  sections: Section[],
+  plan: ImportedSection[],
+  mode: "merge" | "replace"
+): Section[] => {
+  const tasksOf = (column: ImportedColumn) =>
+    column.tasks
+      .filter((entry) => mode === "replace" || !entry.duplicate)
+      .map((entry) => entry.task);
+
+  const updated = sections.map((section) => {
+    const imported = plan.find((s) => s.id === section.id);
+    if (!imported) return section;
+    const columns = section.columns.map((col) => {
+      const importedColumn = imported.columns.find((c) => c.id === col.id);
+      if (!importedColumn)
+        return mode === "replace" ? { ...col, tasks: [] } : col;
+      return {
+        ...col,
+        tasks:
+          mode === "replace"
+            ? tasksOf(importedColumn)
+            : [...col.tasks, ...tasksOf(importedColumn)],
+      };
+    });
+    const added = imported.columns
+      .filter((col) => col.isNew)
+      .map((col) => ({ id: col.id, title: col.title, tasks: tasksOf(col) }));
+    return { ...section, columns: [...columns, ...added] };
+  });
+
+  const addedSections = plan
+    .filter((section) => section.isNew)
+    .map((section) => ({
+      id: section.id,
+      title: section.title,
+      columns: section.columns.map((col) => ({
+        id: col.id,
+        title: col.title,
+        tasks: tasksOf(col),
+      })),
+    }));
+  return [...updated, ...addedSections];
+};
+
+/** The whole board: sections as headings, columns as sub-headings. */
+export const boardToMarkdown = (sections: Section[]): string =>
+  sections
+    .map((section) =>
+      [
+        `# ${section.title}`,
+        ...section.columns.flatMap((column) => [
+          "",
+          `## ${column.title}`,
+          ...column.tasks.flatMap((task) => taskToMarkdown(task)),
+        ]),
+      ].join("\n")
+    )
+    .join("\n\n");
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { BoardData } from "../types";
+import { boardReducer, selectColumn, selectTask } from "./board";
+import { mergeBoards } from "./merge";
+import { boardWith, ERRANDS, QUICKIE, task, taskIds } from "./testing";
+
+const base = boardWith(QUICKIE, task("a"), task("b"));
+
+const rename = (board: BoardData, taskId: string, title: string) =>
+  boardReducer(board, { type: "renameTask", ...QUICKIE, taskId, title });
+
+describe("mergeBoards", () => {
+  it("keeps cards added on both sides", () => {
+    const local = boardReducer(base, {
+      type: "addTask",
+      ...QUICKIE,
+      task: task("here"),
+    });
+    const remote = boardReducer(base, {
+      type: "addTask",
+      ...ERRANDS,
+      task: task("there"),
+    });
+    const { board, conflicts } = mergeBoards(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(taskIds(board, QUICKIE)).toEqual(["a", "b", "here"]);
+    expect(taskIds(board, ERRANDS)).toEqual(["there"]);
+  });
+
+  it("takes the other side's edits to cards left alone here", () => {
+    const local = rename(base, "a", "Mine");
+    const remote = rename(base, "b", "Theirs");
+    const { board, conflicts } = mergeBoards(base, local, remote);
+    expect(conflicts).toEqual([]);
+    expect(selectTask(board.sections, QUICKIE, "a")?.title).toBe("Mine");
+    expect(selectTask(board.sections, QUICKIE, "b")?.title).toBe("Theirs");
+  });
+
+  it("keeps this version of a card changed on both sides and reports it", () => {
+    const local = rename(base, "a", "Mine");
+    const remote = rename(base, "a", "Theirs");
+    const { board, conflicts } = mergeBoards(base, local, remote);
+    expect(selectTask(board.sections, QUICKIE, "a")?.title).toBe("Mine");
+    expect(conflicts).toMatchObject([
+      {
+        taskId: "a",
+        local: { title: "Mine" },
+        remote: { task: { title: "Theirs" }, location: QUICKIE },
+      },
+    ]);
+  });
+
+  it("drops cards deleted on one side and untouched on the other", () => {
+    const local = boardReducer(base, {
+      type: "deleteTask",
+      ...QUICKIE,
+      taskId: "a",
+    });
+    const { board, conflicts } = mergeBoards(base, local, base);
+    expect(conflicts).toEqual([]);
+    expect(taskIds(board, QUICKIE)).toEqual(["b"]);
+  });
+
+  it("reports a card deleted here but edited there", () => {
+    const local = boardReducer(base, {
+      type: "deleteTask",
+      ...QUICKIE,
+      taskId: "a",
+    });
+    const remote = rename(base, "a", "Theirs");
+    const { board, conflicts } = mergeBoards(base, local, remote);
+    expect(taskIds(board, QUICKIE)).toEqual(["b"]);
+    expect(conflicts).toMatchObject([{ taskId: "a", local: null }]);
+  });
+
+  it("merges section and column titles field by field", () => {
+    const local = boardReducer(base, {
+      type: "renameSection",
+      sectionId: "current",
+      title: "Now",
+    });
+    const remote = boardReducer(base, {
+      type: "renameColumn",
+      ...ERRANDS,
+      title: "Outside",
+    });
+    const { board } = mergeBoards(base, local, remote);
+    const current = board.sections.find((s) => s.id === "current");
+    expect(current?.title).toBe("Now");
+    expect(selectColumn(board.sections, ERRANDS)?.title).toBe("Outside");
+  });
+
+  it("keeps a column deleted on one side that the other added cards to", () => {
+    const PROJECT = { sectionId: "current", columnId: "project" };
+    const local = boardReducer(base, {
+      type: "removeLastColumn",
+      sectionId: "current",
+    });
+    const remote = boardReducer(base, {
+      type: "addTask",
+      ...PROJECT,
+      task: task("new"),
+    });
+    for (const [mine, theirs] of [
+      [local, remote],
+      [remote, local],
+    ]) {
+      const { board, conflicts } = mergeBoards(base, mine, theirs);
+      expect(conflicts).toEqual([]);
+      expect(taskIds(board, PROJECT)).toEqual(["new"]);
+    }
+  });
+
+  it("keeps a section deleted on one side that the other added cards to", () => {
+    const ICEBOX = { sectionId: "icebox", columnId: "icebox-chore" };
+    const local = boardReducer(base, {
+      type: "deleteSection",
+      sectionId: "icebox",
+    });
+    const remote = boardReducer(base, {
+      type: "addTask",
+      ...ICEBOX,
+      task: task("new"),
+    });
+    for (const [mine, theirs] of [
+      [local, remote],
+      [remote, local],
+    ]) {
+      const { board } = mergeBoards(base, mine, theirs);
+      expect(taskIds(board, ICEBOX)).toEqual(["new"]);
+      expect(board.sections.map((s) => s.id)).toContain("icebox");
+    }
+  });
+
+  it("still drops a deleted column nobody added to", () => {
+    const local = boardReducer(base, {
+      type: "removeLastColumn",
+      sectionId: "current",
+    });
+    const remote = rename(base, "a", "Theirs");
+    const { board } = mergeBoards(base, local, remote);
+    const current = board.sections.find((s) => s.id === "current");
+    expect(current?.columns.map((col) => col.id)).not.toContain("project");
+    expect(selectTask(board.sections, QUICKIE, "a")?.title).toBe("Theirs");
+  });
+});
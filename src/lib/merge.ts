@@ -0,0 +1,326 @@
+import type {
+  BoardData,
+  Column,
+  ScheduledTask,
+  Section,
+  Task,
+  WeekArchive,
+} from "../types";
+import type { TaskLocation } from "./board";
+
+export interface MergeConflict {
+  taskId: string;
+  title: string;
+  /** The version this tab kept. Null when the task was deleted here. */
+  local: Task | null;
+  /** The other side's version and where it lived. Null when deleted there. */
+  remote: { task: Task; location: TaskLocation } | null;
+}
+
+export interface MergeResult {
+  board: BoardData;
+  conflicts: MergeConflict[];
+}
+
+interface TaskEntry {
+  task: Task;
+  location: TaskLocation;
+  index: number;
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const indexTasks = (sections: Section[]): Map<string, TaskEntry> => {
+  const entries = new Map<string, TaskEntry>();
+  sections.forEach((section) =>
+    section.columns.forEach((col) =>
+      col.tasks.forEach((task, index) =>
+        entries.set(task.id, {
+          task,
+          index,
+          location: { sectionId: section.id, columnId: col.id },
+        })
+      )
+    )
+  );
+  return entries;
+};
+
+const sameEntry = (a?: TaskEntry, b?: TaskEntry) =>
+  !!a &&
+  !!b &&
+  same(a.task, b.task) &&
+  a.location.sectionId === b.location.sectionId &&
+  a.location.columnId === b.location.columnId;
+
+const withoutTasks = (section: Section): Section => ({
+  ...section,
+  columns: section.columns.map((col) => ({ ...col, tasks: [] })),
+});
+
+/**
+ * Three-way merge of a flat list of items by id, fields merged shallowly.
+ * Items deleted on one side stay when `keep` says the other side still
+ * needs them.
+ */
+const mergeList = <T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T,
+  keep: (item: T) => boolean = () => false
+): T[] => {
+  const byId = (items: T[]) => new Map(items.map((item) => [item.id, item]));
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+
+  // Local order wins when only this side reordered
+  const localReordered = !same(
+    base.map((item) => item.id).filter((id) => remoteById.has(id)),
+    local.map((item) => item.id).filter((id) => remoteById.has(id))
+  );
+  const remoteReordered = !same(
+    base.map((item) => item.id),
+    remote.map((item) => item.id)
+  );
+
+  const kept = remote.filter((item) => {
+    const original = baseById.get(item.id);
+    // Deleted here and untouched there
+    return !(
+      original &&
+      !localById.has(item.id) &&
+      same(original, item) &&
+      !keep(item)
+    );
+  });
+  let merged =
+    localReordered && !remoteReordered
+      ? [
+          ...local.filter((item) => kept.some((k) => k.id === item.id)),
+          ...kept.filter((item) => !localById.has(item.id)),
+        ].map((item) => kept.find((k) => k.id === item.id)!)
+      : kept;
+
+  merged = merged.map((item) => {
+    const localItem = localById.get(item.id);
+    return localItem ? mergeItem(baseById.get(item.id), localItem, item) : item;
+  });
+
+  // Added here, or deleted there but still needed
+  local.forEach((item, index) => {
+    if (!remoteById.has(item.id) && (!baseById.has(item.id) || keep(item))) {
+      merged = [
+        ...merged.slice(0, index),
+        mergeItem(undefined, item, item),
+        ...merged.slice(index),
+      ];
+    }
+  });
+  return merged;
+};
+
+const pick = <V>(base: V | undefined, local: V, remote: V): V =>
+  base !== undefined && same(remote, base) ? local : remote;
+
+const mergeArchive = (
+  base: WeekArchive,
+  local: WeekArchive,
+  remote: WeekArchive
+): WeekArchive => {
+  if (same(local, base)) return remote;
+  if (same(remote, base)) return local;
+  return {
+    lastWeek:
+      [local.lastWeek, remote.lastWeek].sort().reverse()[0] ?? local.lastWeek,
+    weeks: { ...remote.weeks, ...local.weeks },
+  };
+};
+
+const mergeScheduled = (
+  base: ScheduledTask[],
+  local: ScheduledTask[],
+  remote: ScheduledTask[]
+): ScheduledTask[] => {
+  if (same(local, base)) return remote;
+  if (same(remote, base)) return local;
+  // Keep what either side added, drop what either side put on the board
+  const baseIds = new Set(base.map((entry) => entry.task.id));
+  const localIds = new Set(local.map((entry) => entry.task.id));
+  const remoteIds = new Set(remote.map((entry) => entry.task.id));
+  return [
+    ...remote.filter(
+      (entry) => !baseIds.has(entry.task.id) || localIds.has(entry.task.id)
+    ),
+    ...local.filter(
+      (entry) => !baseIds.has(entry.task.id) && !remoteIds.has(entry.task.id)
+    ),
+  ];
+};
+
+/**
+ * Merges the board another tab wrote (`remote`) into this tab's board
+ * (`local`), given the last state both had in common (`base`).
+ *
+ * Sections and columns merge field by field. Tasks merge one by one: a side
+ * that left a task untouched takes the other side's version, and when both
+ * changed the same task this tab's version is kept and reported as a
+ * conflict. A section or column deleted on one side survives when the other
+ * side added or changed cards in it.
+ */
+export const mergeBoards = (
+  base: BoardData,
+  local: BoardData,
+  remote: BoardData
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+
+  const baseTasks = indexTasks(base.sections);
+  const localTasks = indexTasks(local.sections);
+  const remoteTasks = indexTasks(remote.sections);
+  const placed = new Map<string, TaskEntry & { fromLocal: boolean }>();
+
+  const ids = new Set([...localTasks.keys(), ...remoteTasks.keys()]);
+  ids.forEach((id) => {
+    const b = baseTasks.get(id);
+    const l = localTasks.get(id);
+    const r = remoteTasks.get(id);
+
+    if (l && r) {
+      if (sameEntry(l, r) || sameEntry(b, l)) {
+        placed.set(id, { ...r, fromLocal: false });
+      } else {
+        if (b && !sameEntry(b, r)) {
+          conflicts.push({
+            taskId: id,
+            title: l.task.title,
+            local: l.task,
+            remote: { task: r.task, location: r.location },
+          });
+        }
+        placed.set(id, { ...l, fromLocal: true });
+      }
+    } else if (l) {
+      // Missing remotely: added here, or deleted there
+      if (!b) {
+        placed.set(id, { ...l, fromLocal: true });
+      } else if (!sameEntry(b, l)) {
+        conflicts.push({
+          taskId: id,
+          title: l.task.title,
+          local: l.task,
+          remote: null,
+        });
+        placed.set(id, { ...l, fromLocal: true });
+      }
+    } else if (r) {
+      // Missing locally: added there, or deleted here
+      if (!b) {
+        placed.set(id, { ...r, fromLocal: false });
+      } else if (!sameEntry(b, r)) {
+        conflicts.push({
+          taskId: id,
+          title: r.task.title,
+          local: null,
+          remote: { task: r.task, location: r.location },
+        });
+      }
+    }
+  });
+
+  // Columns and sections deleted on one side stay while they hold cards
+  // the other side added or changed
+  const changed = [...placed.entries()].filter(
+    ([id, entry]) => !sameEntry(baseTasks.get(id), entry)
+  );
+  const holdsChanges = (sectionId: string, columnId?: string) =>
+    changed.some(
+      ([, { location }]) =>
+        location.sectionId === sectionId &&
+        (columnId === undefined || location.columnId === columnId)
+    );
+
+  // Then the structure: sections and columns without their tasks
+  const structure = mergeList<Section>(
+    base.sections.map(withoutTasks),
+    local.sections.map(withoutTasks),
+    remote.sections.map(withoutTasks),
+    (b, l, r) => ({
+      ...r,
+      title: pick(b?.title, l.title, r.title),
+      columns: mergeList<Column>(
+        b?.columns ?? [],
+        l.columns,
+        r.columns,
+        (bc, lc, rc) => ({
+          ...rc,
+          title: pick(bc?.title, lc.title, rc.title),
+          wipLimit: pick(bc?.wipLimit, lc.wipLimit, rc.wipLimit),
+        }),
+        (col) => holdsChanges(r.id, col.id)
+      ),
+    }),
+    (section) => holdsChanges(section.id)
+  );
+
+  const exists = ({ sectionId, columnId }: TaskLocation) =>
+    structure.some(
+      (s) => s.id === sectionId && s.columns.some((c) => c.id === columnId)
+    );
+
+  const firstColumn = structure[0]?.columns[0];
+  const sections = structure.map((section) => ({
+    ...section,
+    columns: section.columns.map((col) => {
+      const inColumn = (entry: TaskEntry) =>
+        entry.location.sectionId === section.id &&
+        entry.location.columnId === col.id;
+
+      let tasks = (
+        remote.sections
+          .find((s) => s.id === section.id)
+          ?.columns.find((c) => c.id === col.id)?.tasks ?? []
+      )
+        .map((task) => placed.get(task.id))
+        .filter(
+          (entry): entry is TaskEntry & { fromLocal: boolean } =>
+            !!entry && !entry.fromLocal && inColumn(entry)
+        )
+        .map((entry) => entry.task);
+
+      const fromLocal = [...placed.values()]
+        .filter(
+          (entry) =>
+            (entry.fromLocal && inColumn(entry)) ||
+            // Its column is gone on both sides: park it in the first one
+            (col === firstColumn && !exists(entry.location))
+        )
+        .sort((a, b) => a.index - b.index);
+      fromLocal.forEach((entry) => {
+        tasks = [
+          ...tasks.slice(0, entry.index),
+          entry.task,
+          ...tasks.slice(entry.index),
+        ];
+      });
+      return { ...col, tasks };
+    }),
+  }));
+
+  return {
+    board: {
+      ...remote,
+      sections,
+      archive: mergeArchive(base.archive, local.archive, remote.archive),
+      settings: pick(base.settings, local.settings, remote.settings),
+      scheduled: mergeScheduled(
+        base.scheduled,
+        local.scheduled,
+        remote.scheduled
+      ),
+    },
+    conflicts,
+  };
+};
@@ -0,0 +1,150 @@
+import type { Section } from "../types";
+import type { TaskLocation } from "./board";
+
+/** The keyboard cursor: a task, or a column header when `taskId` is null. */
+export interface BoardFocus extends TaskLocation {
+  taskId: string | null;
+}
+
+export type FocusDirection = "up" | "down" | "left" | "right";
+
+interface FocusIndex {
+  section: number;
+  column: number;
+  /** -1 for the column header. */
+  task: number;
+}
+
+const toIndex = (sections: Section[], focus: BoardFocus): FocusIndex | null => {
+  const section = sections.findIndex((s) => s.id === focus.sectionId);
+  if (section < 0) return null;
+  const column = sections[section].columns.findIndex(
+    (col) => col.id === focus.columnId
+  );
+  if (column < 0) return null;
+  const task =
+    focus.taskId === null
+      ? -1
+      : sections[section].columns[column].tasks.findIndex(
+          (t) => t.id === focus.taskId
+        );
+  return { section, column, task };
+};
+
+const fromIndex = (
+  sections: Section[],
+  { section, column, task }: FocusIndex
+): BoardFocus | null => {
+  const s = sections[section];
+  const col = s?.columns[Math.min(column, s.columns.length - 1)];
+  if (!s || !col) return null;
+  return {
+    sectionId: s.id,
+    columnId: col.id,
+    taskId: task >= 0 ? (col.tasks[task]?.id ?? null) : null,
+  };
+};
+
+export const firstFocus = (sections: Section[]): BoardFocus | null =>
+  fromIndex(sections, { section: 0, column: 0, task: 0 });
+
+/**
+ * Keeps the cursor valid after the board changed under it, e.g. when the
+ * focused task was deleted or its column removed.
+ */
+export const resolveFocus = (
+  sections: Section[],
+  focus: BoardFocus | null
+): BoardFocus | null => {
+  if (!focus) return null;
+  const index = toIndex(sections, focus);
+  if (!index) return firstFocus(sections);
+  if (index.task === -1 && focus.taskId !== null) {
+    return { ...focus, taskId: null };
+  }
+  return focus;
+};
+
+export const moveFocus = (
+  sections: Section[],
+  focus: BoardFocus | null,
+  direction: FocusDirection
+): BoardFocus | null => {
+  const index = focus && toIndex(sections, focus);
+  if (!index) return firstFocus(sections);
+
+  const column = sections[index.section].columns[index.column];
+  switch (direction) {
+    case "left":
+    case "right": {
+      const offset = direction === "left" ? -1 : 1;
+      const next = index.column + offset;
+      if (next < 0 || next >= sections[index.section].columns.length) {
+        return focus;
+      }
+      const tasks = sections[index.section].columns[next].tasks;
+      return fromIndex(sections, {
+        ...index,
+        column: next,
+        task: Math.min(index.task, tasks.length - 1),
+      });
+    }
+    case "up": {
+      if (index.task >= 0) {
+        return fromIndex(sections, { ...index, task: index.task - 1 });
+      }
+      if (index.section === 0) return focus;
+      const previous = sections[index.section - 1];
+      const col =
+        previous.columns[Math.min(index.column, previous.columns.length - 1)];
+      return fromIndex(sections, {
+        section: index.section - 1,
+        column: index.column,
+        task: (col?.tasks.length ?? 0) - 1,
+      });
+    }
+    case "down":
+      if (index.task < column.tasks.length - 1) {
+        return fromIndex(sections, { ...index, task: index.task + 1 });
+      }
+      if (index.section === sections.length - 1) return focus;
+      return fromIndex(sections, {
+        section: index.section + 1,
+        column: index.column,
+        task: -1,
+      });
+  }
+};
+
+/** The column next to the focused one in the same section. */
+export const adjacentColumn = (
+  sections: Section[],
+  focus: BoardFocus,
+  offset: -1 | 1
+): TaskLocation | null => {
+  const index = toIndex(sections, focus);
+  if (!index) return null;
+  const section = sections[index.section];
+  const col = section.columns[index.column + offset];
+  return col ? { sectionId: section.id, columnId: col.id } : null;
+};
+
+/** The column at the same position in the previous or next section. */
+export const adjacentSection = (
+  sections: Section[],
+  focus: BoardFocus,
+  offset: -1 | 1
+): TaskLocation | null => {
+  const index = toIndex(sections, focus);
+  const section = index && sections[index.section + offset];
+  if (!index || !section) return null;
+  const col =
+    section.columns[Math.min(index.column, section.columns.length - 1)];
+  return col ? { sectionId: section.id, columnId: col.id } : null;
+};
+
+/** Index of the focused task in its column, or -1 for a column header. */
+export const focusedTaskIndex = (
+  sections: Section[],
+  focus: BoardFocus
+): number => toIndex(sections, focus)?.task ?? -1;
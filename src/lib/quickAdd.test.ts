@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BOARD } from "./board";
+import { parseDueToken, parseQuickAdd } from "./quickAdd";
+
+// A Wednesday
+const TODAY = new Date(2025, 5, 18);
+
+describe("parseDueToken", () => {
+  it.each([
+    ["today", "2025-06-18"],
+    ["Tomorrow", "2025-06-19"],
+    ["+3", "2025-06-21"],
+    ["10d", "2025-06-28"],
+    ["2025-12-24", "2025-12-24"],
+    ["wed", "2025-06-18"],
+    ["fri", "2025-06-20"],
+    ["Monday", "2025-06-23"],
+    ["sunday", "2025-06-22"],
+  ])("reads %o as %s", (token, date) => {
+    expect(parseDueToken(token, TODAY)).toBe(date);
+  });
+
+  it.each(["monthly", "sunny", "fr", "frid", "soon"])("rejects %o", (token) => {
+    expect(parseDueToken(token, TODAY)).toBeNull();
+  });
+});
+
+describe("parseQuickAdd", () => {
+  const { sections } = DEFAULT_BOARD;
+
+  it("reads the tokens and leaves the rest as the title", () => {
+    expect(
+      parseQuickAdd(
+        "Buy milk #errand due:fri #blue ! repeat:3d",
+        sections,
+        TODAY
+      )
+    ).toEqual({
+      title: "Buy milk",
+      location: {
+        sectionId: "current",
+        columnId: "errand",
+        sectionTitle: "🔥 Current",
+        columnTitle: "Errand",
+      },
+      changes: {
+        dueDate: "2025-06-20",
+        labels: ["blue", "red"],
+        recurrence: { kind: "interval", days: 3 },
+      },
+    });
+  });
+
+  it("picks the section by title prefix and its first column by default", () => {
+    const { title, location } = parseQuickAdd("Learn Go @back", sections);
+    expect(title).toBe("Learn Go");
+    expect(location).toMatchObject({
+      sectionId: "backlog",
+      columnId: "backlog-quickie",
+    });
+  });
+
+  it("keeps tokens that match nothing in the title", () => {
+    const { title, changes } = parseQuickAdd(
+      "Plan #launch @mars due:monthly",
+      sections,
+      TODAY
+    );
+    expect(title).toBe("Plan #launch @mars due:monthly");
+    expect(changes).toEqual({});
+  });
+});
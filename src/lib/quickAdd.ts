@@ -0,0 +1,150 @@
+import {
+  LABEL_COLORS,
+  type LabelColor,
+  type Section,
+  type Task,
+} from "../types";
+import { normalizeTitle, type TaskLocation } from "./board";
+import { toDateKey } from "./dates";
+import { parseRecurrenceToken, WEEKDAY_NAMES } from "./recurrence";
+import { FINISHED_SECTION_ID } from "./week";
+
+export interface QuickAdd {
+  title: string;
+  /** Null when the board has no column to put the task in. */
+  location:
+    (TaskLocation & { sectionTitle: string; columnTitle: string }) | null;
+  changes: Pick<Task, "dueDate" | "labels" | "recurrence">;
+}
+
+const WEEKDAY_FULL_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const matchesName = (name: string, query: string) => {
+  const prefix = normalizeTitle(query);
+  return prefix !== "" && normalizeTitle(name).startsWith(prefix);
+};
+
+/**
+ * A `due:` value as a date: "today", "tomorrow", a weekday such as "fri" or
+ * "friday" (the next one, today included), "+3" or "3d" days from now, or an
+ * explicit "2025-01-31".
+ */
+export const parseDueToken = (value: string, today: Date): string | null => {
+  const token = value.toLowerCase();
+  const inDays = (days: number) =>
+    toDateKey(
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() + days)
+    );
+
+  if (token === "today") return inDays(0);
+  if (token === "tomorrow" || token === "tmr") return inDays(1);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(token)) return token;
+  const offset = /^\+?(\d{1,3})d?$/.exec(token);
+  if (offset) return inDays(Number(offset[1]));
+  const weekday = WEEKDAY_NAMES.findIndex(
+    (name, day) =>
+      token === name.toLowerCase() || token === WEEKDAY_FULL_NAMES[day]
+  );
+  if (weekday >= 0) return inDays((weekday - today.getDay() + 7) % 7);
+  return null;
+};
+
+/**
+ * Reads command bar input like `Buy milk #errand @current due:fri !`:
+ * `@section` and `#column` pick where the task goes (by title prefix),
+ * `due:` and `repeat:` set its date and recurrence, `#color` adds a label
+ * and a lone `!` flags it red. Tokens that match nothing stay in the title.
+ *
+ * Without `@section` the column is looked up in Current first, then in
+ * every other section; without `#column` the task goes to the first column.
+ */
+export const parseQuickAdd = (
+  input: string,
+  sections: Section[],
+  today: Date = new Date()
+): QuickAdd => {
+  const words: string[] = [];
+  const labels = new Set<LabelColor>();
+  const changes: QuickAdd["changes"] = {};
+  let sectionQuery: string | null = null;
+  let columnQuery: string | null = null;
+
+  for (const word of input.split(/\s+/).filter(Boolean)) {
+    const lower = word.toLowerCase();
+    if (word === "!") {
+      labels.add("red");
+    } else if (word.startsWith("@") && word.length > 1) {
+      const query = word.slice(1);
+      if (sections.some((s) => matchesName(s.title, query) || s.id === query)) {
+        sectionQuery = query;
+      } else {
+        words.push(word);
+      }
+    } else if (word.startsWith("#") && word.length > 1) {
+      const query = word.slice(1);
+      const isColumn = sections.some((s) =>
+        s.columns.some((c) => matchesName(c.title, query))
+      );
+      if (isColumn && !columnQuery) {
+        columnQuery = query;
+      } else if (LABEL_COLORS.includes(lower.slice(1) as LabelColor)) {
+        labels.add(lower.slice(1) as LabelColor);
+      } else {
+        words.push(word);
+      }
+    } else if (lower.startsWith("due:")) {
+      const due = parseDueToken(word.slice("due:".length), today);
+      if (due) changes.dueDate = due;
+      else words.push(word);
+    } else if (lower.startsWith("repeat:")) {
+      const rule = parseRecurrenceToken(word.slice("repeat:".length));
+      if (rule) changes.recurrence = rule;
+      else words.push(word);
+    } else {
+      words.push(word);
+    }
+  }
+  if (labels.size > 0) changes.labels = [...labels];
+
+  const fallback =
+    sections.find((s) => s.id === "current") ??
+    sections.find((s) => s.id !== FINISHED_SECTION_ID) ??
+    sections[0];
+  const section = sectionQuery
+    ? sections.find(
+        (s) => s.id === sectionQuery || matchesName(s.title, sectionQuery!)
+      )
+    : undefined;
+  const candidates = section
+    ? [section]
+    : [fallback, ...sections.filter((s) => s !== fallback)];
+  const columnMatch = columnQuery
+    ? candidates
+        .flatMap((s) => s.columns.map((col) => ({ section: s, col })))
+        .find(({ col }) => matchesName(col.title, columnQuery!))
+    : undefined;
+  const home = columnMatch?.section ?? section ?? fallback;
+  const column = columnMatch?.col ?? home?.columns[0];
+
+  return {
+    title: words.join(" "),
+    location:
+      home && column
+        ? {
+            sectionId: home.id,
+            columnId: column.id,
+            sectionTitle: home.title,
+            columnTitle: column.title,
+          }
+        : null,
+    changes,
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { Recurrence, Task } from "../types";
+import {
+  nextInstance,
+  nextOccurrence,
+  parseRecurrenceToken,
+  recurrenceToToken,
+} from "./recurrence";
+
+describe("nextOccurrence", () => {
+  // 2025-06-20 is a Friday
+  it.each<[Recurrence, string, string]>([
+    [{ kind: "daily" }, "2025-06-30", "2025-07-01"],
+    [{ kind: "interval", days: 3 }, "2025-06-20", "2025-06-23"],
+    [{ kind: "weekdays" }, "2025-06-20", "2025-06-23"],
+    [{ kind: "weekly", days: [2, 4] }, "2025-06-20", "2025-06-24"],
+    [{ kind: "weekly", days: [5] }, "2025-06-20", "2025-06-27"],
+    [{ kind: "monthly", day: 15 }, "2025-06-10", "2025-06-15"],
+    [{ kind: "monthly", day: 15 }, "2025-06-15", "2025-07-15"],
+    [{ kind: "monthly", day: 31 }, "2025-01-31", "2025-02-28"],
+  ])("%o after %s is %s", (rule, after, expected) => {
+    expect(nextOccurrence(rule, after)).toBe(expected);
+  });
+});
+
+describe("nextInstance", () => {
+  const done: Task & { recurrence: Recurrence } = {
+    id: "a",
+    title: "Water plants",
+    completed: true,
+    completedAt: "2025-06-20T09:00:00.000Z",
+    completedIn: "Chore",
+    dueDate: "2025-06-20",
+    recurrence: { kind: "daily" },
+    checklist: [{ id: "1", text: "Balcony", done: true }],
+  };
+
+  it("starts over, due the next time the rule falls on", () => {
+    const next = nextInstance(done, "b", "2025-06-20");
+    expect(next).toMatchObject({
+      id: "b",
+      title: "Water plants",
+      completed: false,
+      dueDate: "2025-06-21",
+      checklist: [{ id: "1", text: "Balcony", done: false }],
+    });
+    expect(next.completedAt).toBeUndefined();
+    expect(next.completedIn).toBeUndefined();
+  });
+
+  it("counts from the due date when the task was done early", () => {
+    expect(nextInstance(done, "b", "2025-06-18").dueDate).toBe("2025-06-21");
+  });
+});
+
+describe("recurrence tokens", () => {
+  it.each<[string, Recurrence]>([
+    ["daily", { kind: "daily" }],
+    ["weekdays", { kind: "weekdays" }],
+    ["mon-thu", { kind: "weekly", days: [1, 4] }],
+    ["3d", { kind: "interval", days: 3 }],
+    ["monthly-15", { kind: "monthly", day: 15 }],
+  ])("reads and writes %s", (token, rule) => {
+    expect(parseRecurrenceToken(token)).toEqual(rule);
+    expect(recurrenceToToken(rule)).toBe(token);
+  });
+
+  it.each(["", "0d", "monthly-32", "mon-funday", "weekly"])(
+    "rejects %o",
+    (token) => {
+      expect(parseRecurrenceToken(token)).toBeNull();
+    }
+  );
+});
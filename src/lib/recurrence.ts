@@ -0,0 +1,138 @@
+import type { Recurrence, Task } from "../types";
+import { toDateKey } from "./dates";
+
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const monthlyDate = (year: number, month: number, day: number) => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return toDateKey(new Date(year, month, Math.min(day, lastDay)));
+};
+
+/** The first date after `after` ("YYYY-MM-DD") the rule falls on. */
+export const nextOccurrence = (rule: Recurrence, after: string): string => {
+  switch (rule.kind) {
+    case "daily":
+      return addDays(after, 1);
+    case "interval":
+      return addDays(after, Math.max(1, rule.days));
+    case "weekdays":
+    case "weekly": {
+      const days = rule.kind === "weekdays" ? [1, 2, 3, 4, 5] : rule.days;
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = addDays(after, offset);
+        if (days.includes(parseDateKey(candidate).getDay())) return candidate;
+      }
+      return addDays(after, 7);
+    }
+    case "monthly": {
+      const date = parseDateKey(after);
+      const thisMonth = monthlyDate(
+        date.getFullYear(),
+        date.getMonth(),
+        rule.day
+      );
+      return thisMonth > after
+        ? thisMonth
+        : monthlyDate(date.getFullYear(), date.getMonth() + 1, rule.day);
+    }
+  }
+};
+
+/**
+ * The instance that follows a completed recurring task: same content, not
+ * done, due on the next date the rule falls on after both today and the
+ * completed task's own due date.
+ */
+export const nextInstance = (
+  task: Task & { recurrence: Recurrence },
+  id: string,
+  today: string
+): Task => {
+  const from = task.dueDate && task.dueDate > today ? task.dueDate : today;
+  return {
+    ...task,
+    id,
+    completed: false,
+    completedAt: undefined,
+    completedIn: undefined,
+    movedAt: undefined,
+    finishedDay: undefined,
+    snoozedUntil: undefined,
+    dueDate: nextOccurrence(task.recurrence, from),
+    checklist: task.checklist?.map((item) => ({ ...item, done: false })),
+  };
+};
+
+const ordinal = (n: number) => {
+  const suffix =
+    n % 10 === 1 && n !== 11
+      ? "st"
+      : n % 10 === 2 && n !== 12
+        ? "nd"
+        : n % 10 === 3 && n !== 13
+          ? "rd"
+          : "th";
+  return `${n}${suffix}`;
+};
+
+export const describeRecurrence = (rule: Recurrence): string => {
+  switch (rule.kind) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Weekdays";
+    case "weekly":
+      return `Weekly on ${rule.days.map((day) => WEEKDAY_NAMES[day]).join(", ")}`;
+    case "interval":
+      return rule.days === 1 ? "Daily" : `Every ${rule.days} days`;
+    case "monthly":
+      return `Monthly on the ${ordinal(rule.day)}`;
+  }
+};
+
+/** Compact form for Markdown: `daily`, `weekdays`, `mon-thu`, `3d`, `monthly-15`. */
+export const recurrenceToToken = (rule: Recurrence): string => {
+  switch (rule.kind) {
+    case "daily":
+    case "weekdays":
+      return rule.kind;
+    case "weekly":
+      return rule.days.map((day) => WEEKDAY_NAMES[day].toLowerCase()).join("-");
+    case "interval":
+      return `${rule.days}d`;
+    case "monthly":
+      return `monthly-${rule.day}`;
+  }
+};
+
+export const parseRecurrenceToken = (token: string): Recurrence | null => {
+  const value = token.toLowerCase();
+  if (value === "daily" || value === "weekdays") return { kind: value };
+
+  const interval = /^(\d{1,3})d$/.exec(value);
+  if (interval && Number(interval[1]) > 0) {
+    return { kind: "interval", days: Number(interval[1]) };
+  }
+  const monthly = /^monthly-(\d{1,2})$/.exec(value);
+  if (monthly && Number(monthly[1]) >= 1 && Number(monthly[1]) <= 31) {
+    return { kind: "monthly", day: Number(monthly[1]) };
+  }
+
+  const names = WEEKDAY_NAMES.map((name) => name.toLowerCase());
+  const days = value.split("-").map((part) => names.indexOf(part));
+  if (days.length > 0 && days.every((day) => day >= 0)) {
+    return { kind: "weekly", days: [...new Set(days)].sort((a, b) => a - b) };
+  }
+  return null;
+};
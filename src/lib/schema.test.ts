@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BOARD } from "./board";
+import { parseBoardData, SCHEMA_VERSION, SchemaError } from "./schema";
+import { column, section, task } from "./testing";
+
+const sections = [section("current", "Current", column("a", "A", task("1")))];
+const archive = { lastWeek: "2025-W07", weeks: {} };
+
+describe("parseBoardData", () => {
+  it("accepts the current envelope as it is", () => {
+    expect(parseBoardData(DEFAULT_BOARD)).toEqual({
+      ok: true,
+      data: DEFAULT_BOARD,
+      migratedFrom: null,
+    });
+  });
+
+  it("wraps a legacy bare array of sections", () => {
+    expect(parseBoardData(sections)).toEqual({
+      ok: true,
+      data: {
+        version: SCHEMA_VERSION,
+        sections,
+        archive: { lastWeek: null, weeks: {} },
+        scheduled: [],
+        settings: { enforceWipLimits: false },
+      },
+      migratedFrom: 1,
+    });
+  });
+
+  // What each version wrote, before the fields later versions added
+  it.each([
+    [2, { sections, archive }],
+    [3, { sections, archive }],
+    [4, { sections, archive, scheduled: [] }],
+    [5, { sections, archive, scheduled: [] }],
+    [
+      6,
+      {
+        sections,
+        archive,
+        scheduled: [],
+        settings: { enforceWipLimits: true },
+      },
+    ],
+  ])("migrates version %i", (version, fields) => {
+    const result = parseBoardData({ version, ...fields });
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        version: SCHEMA_VERSION,
+        sections,
+        archive,
+        scheduled: [],
+        settings: { enforceWipLimits: version === 6 },
+      },
+      migratedFrom: version,
+    });
+  });
+
+  it("refuses versions newer than the app", () => {
+    expect(
+      parseBoardData({ ...DEFAULT_BOARD, version: SCHEMA_VERSION + 1 })
+    ).toEqual({
+      ok: false,
+      errors: [
+        {
+          path: "version",
+          message: expect.stringMatching(/newer than this app supports/),
+        },
+      ],
+    });
+  });
+
+  it.each([null, "board", { sections }])("refuses %o", (raw) => {
+    expect(parseBoardData(raw)).toMatchObject({
+      ok: false,
+      errors: [{ path: "version" }],
+    });
+  });
+
+  it("lists every invalid field by its path", () => {
+    const result = parseBoardData({
+      ...DEFAULT_BOARD,
+      sections: [
+        section(
+          "current",
+          "Current",
+          {
+            ...column("a", "A", task("1", { dueDate: "tomorrow" })),
+            wipLimit: 0,
+          },
+          column("b", "B", { ...task("2"), completed: "no" } as never)
+        ),
+      ],
+      settings: {},
+    });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        {
+          path: "sections[0].columns[0].tasks[0].dueDate",
+          message: "expected a date like 2025-01-31",
+        },
+        {
+          path: "sections[0].columns[0].wipLimit",
+          message: "expected a positive whole number",
+        },
+        {
+          path: "sections[0].columns[1].tasks[0].completed",
+          message: "expected true or false",
+        },
+        {
+          path: "settings.enforceWipLimits",
+          message: "expected true or false",
+        },
+      ],
+    });
+  });
+});
+
+describe("SchemaError", () => {
+  it("reads each issue as a line of its message", () => {
+    const error = new SchemaError([
+      { path: "sections", message: "expected a list" },
+      { path: "settings", message: "expected an object" },
+    ]);
+    expect(error.message).toBe(
+      "sections: expected a list\nsettings: expected an object"
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  LABEL_COLORS,
+  type BoardData,
+  type BoardSettings,
+  type ScheduledTask,
+  type Section,
+  type WeekArchive,
+} from "../types";
+
+/**
+ * Version history of the persisted board:
+ * 1 - bare `Section[]` array (no envelope)
+ * 2 - `{ version, sections, archive }` envelope
+ * 3 - tasks gain optional description, dueDate, labels and checklist
+ * 4 - tasks gain optional recurrence; `scheduled` holds upcoming instances
+ * 5 - tasks gain optional createdAt, completedIn and movedAt
+ * 6 - columns gain optional wipLimit; board `settings` added
+ * 7 - tasks gain optional snoozedUntil
+ */
+export const SCHEMA_VERSION = 7;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type ParseResult =
+  | { ok: true; data: BoardData; migratedFrom: number | null }
+  | { ok: false; errors: SchemaIssue[] };
+
+export class SchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n"));
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+type Envelope = Record<string, unknown> & { version: number };
+
+const migrations: Record<number, (data: Envelope) => Envelope> = {
+  1: (data) => ({
+    ...data,
+    version: 2,
+    archive: { lastWeek: null, weeks: {} },
+  }),
+  // Only optional task fields were added
+  2: (data) => ({ ...data, version: 3 }),
+  3: (data) => ({ ...data, version: 4, scheduled: [] }),
+  4: (data) => ({ ...data, version: 5 }),
+  5: (data) => ({
+    ...data,
+    version: 6,
+    settings: { enforceWipLimits: false },
+  }),
+  6: (data) => ({ ...data, version: 7 }),
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+class Validator {
+  issues: SchemaIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path: path || "(root)", message });
+  }
+
+  string(obj: Record<string, unknown>, key: string, path: string) {
+    if (typeof obj[key] !== "string") {
+      this.fail(join(path, key), "expected a string");
+    }
+  }
+
+  optionalString(obj: Record<string, unknown>, key: string, path: string) {
+    if (obj[key] !== undefined && typeof obj[key] !== "string") {
+      this.fail(join(path, key), "expected a string or nothing");
+    }
+  }
+
+  optionalDate(obj: Record<string, unknown>, key: string, path: string) {
+    this.optionalString(obj, key, path);
+    const value = obj[key];
+    if (typeof value === "string" && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      this.fail(join(path, key), "expected a date like 2025-01-31");
+    }
+  }
+
+  boolean(obj: Record<string, unknown>, key: string, path: string) {
+    if (typeof obj[key] !== "boolean") {
+      this.fail(join(path, key), "expected true or false");
+    }
+  }
+
+  array<T>(
+    value: unknown,
+    path: string,
+    item: (value: unknown, path: string) => T
+  ) {
+    if (!Array.isArray(value)) {
+      this.fail(path, "expected a list");
+      return;
+    }
+    value.forEach((entry, index) => item(entry, join(path, index)));
+  }
+
+  record(value: unknown, path: string): value is Record<string, unknown> {
+    if (!isRecord(value)) {
+      this.fail(path, "expected an object");
+      return false;
+    }
+    return true;
+  }
+
+  task = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.string(value, "id", path);
+    this.string(value, "title", path);
+    this.boolean(value, "completed", path);
+    this.optionalString(value, "createdAt", path);
+    this.optionalString(value, "completedAt", path);
+    this.optionalString(value, "completedIn", path);
+    this.optionalString(value, "movedAt", path);
+    this.optionalString(value, "finishedDay", path);
+    this.optionalString(value, "description", path);
+    this.optionalDate(value, "dueDate", path);
+    this.optionalDate(value, "snoozedUntil", path);
+    if (value.labels !== undefined) {
+      this.array(value.labels, join(path, "labels"), (label, labelPath) => {
+        if (!LABEL_COLORS.includes(label as never)) {
+          this.fail(labelPath, `expected one of ${LABEL_COLORS.join(", ")}`);
+        }
+      });
+    }
+    if (value.checklist !== undefined) {
+      this.array(value.checklist, join(path, "checklist"), this.checklistItem);
+    }
+    if (value.recurrence !== undefined) {
+      this.recurrence(value.recurrence, join(path, "recurrence"));
+    }
+  };
+
+  recurrence = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    const isCount = (n: unknown, min: number, max: number) =>
+      Number.isInteger(n) && (n as number) >= min && (n as number) <= max;
+    switch (value.kind) {
+      case "daily":
+      case "weekdays":
+        return;
+      case "weekly":
+        this.array(value.days, join(path, "days"), (day, dayPath) => {
+          if (!isCount(day, 0, 6)) {
+            this.fail(dayPath, "expected a weekday from 0 (Sunday) to 6");
+          }
+        });
+        return;
+      case "interval":
+        if (!isCount(value.days, 1, 999)) {
+          this.fail(join(path, "days"), "expected a number of days");
+        }
+        return;
+      case "monthly":
+        if (!isCount(value.day, 1, 31)) {
+          this.fail(join(path, "day"), "expected a day of the month");
+        }
+        return;
+      default:
+        this.fail(
+          join(path, "kind"),
+          "expected daily, weekdays, weekly, interval or monthly"
+        );
+    }
+  };
+
+  scheduledTask = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.task(value.task, join(path, "task"));
+    this.string(value, "sectionId", path);
+    this.string(value, "columnId", path);
+    this.string(value, "sourceId", path);
+    if (
+      typeof value.due !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(value.due)
+    ) {
+      this.fail(join(path, "due"), "expected a date like 2025-01-31");
+    }
+  };
+
+  checklistItem = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.string(value, "id", path);
+    this.string(value, "text", path);
+    this.boolean(value, "done", path);
+  };
+
+  column = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.string(value, "id", path);
+    this.string(value, "title", path);
+    this.array(value.tasks, join(path, "tasks"), this.task);
+    if (
+      value.wipLimit !== undefined &&
+      !(Number.isInteger(value.wipLimit) && (value.wipLimit as number) > 0)
+    ) {
+      this.fail(join(path, "wipLimit"), "expected a positive whole number");
+    }
+  };
+
+  settings = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.boolean(value, "enforceWipLimits", path);
+  };
+
+  section = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    this.string(value, "id", path);
+    this.string(value, "title", path);
+    this.array(value.columns, join(path, "columns"), this.column);
+  };
+
+  archive = (value: unknown, path: string) => {
+    if (!this.record(value, path)) return;
+    if (value.lastWeek !== null && typeof value.lastWeek !== "string") {
+      this.fail(join(path, "lastWeek"), "expected a string or null");
+    }
+    const weeksPath = join(path, "weeks");
+    if (!this.record(value.weeks, weeksPath)) return;
+    Object.entries(value.weeks).forEach(([key, week]) => {
+      const weekPath = join(weeksPath, key);
+      if (!this.record(week, weekPath)) return;
+      this.string(week, "week", weekPath);
+      this.string(week, "archivedAt", weekPath);
+      this.array(week.days, join(weekPath, "days"), this.column);
+    });
+  };
+}
+
+export const validateArchive = (value: unknown): SchemaIssue[] => {
+  const validator = new Validator();
+  validator.archive(value, "archive");
+  return validator.issues;
+};
+
+export const validateSections = (
+  value: unknown,
+  path = "sections"
+): SchemaIssue[] => {
+  const validator = new Validator();
+  validator.array(value, path, validator.section);
+  return validator.issues;
+};
+
+/**
+ * Upgrades any known shape of board data (legacy bare arrays included) to the
+ * current envelope and validates the whole tree.
+ */
+export const parseBoardData = (raw: unknown): ParseResult => {
+  let data: Envelope;
+  if (Array.isArray(raw)) {
+    data = { version: 1, sections: raw };
+  } else if (isRecord(raw) && typeof raw.version === "number") {
+    data = raw as Envelope;
+  } else {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: "version",
+          message: "not a FocusTask export: missing version number",
+        },
+      ],
+    };
+  }
+
+  const originalVersion = data.version;
+  if (originalVersion > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: "version",
+          message: `version ${originalVersion} is newer than this app supports (${SCHEMA_VERSION})`,
+        },
+      ],
+    };
+  }
+
+  while (data.version < SCHEMA_VERSION) {
+    const migrate = migrations[data.version];
+    if (!migrate) {
+      return {
+        ok: false,
+        errors: [
+          {
+            path: "version",
+            message: `no migration from version ${data.version}`,
+          },
+        ],
+      };
+    }
+    data = migrate(data);
+  }
+
+  const validator = new Validator();
+  validator.array(data.sections, "sections", validator.section);
+  validator.archive(data.archive, "archive");
+  validator.array(data.scheduled, "scheduled", validator.scheduledTask);
+  validator.settings(data.settings, "settings");
+  if (validator.issues.length > 0) {
+    return { ok: false, errors: validator.issues };
+  }
+
+  return {
+    ok: true,
+    data: {
+      version: SCHEMA_VERSION,
+      sections: data.sections as Section[],
+      archive: data.archive as WeekArchive,
+      scheduled: data.scheduled as ScheduledTask[],
+      settings: data.settings as BoardSettings,
+    },
+    migratedFrom: originalVersion === SCHEMA_VERSION ? null : originalVersion,
+  };
+};
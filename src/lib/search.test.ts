@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  fuzzyMatch,
+  isEmptyQuery,
+  parseSearchQuery,
+  searchBoard,
+} from "./search";
+import { column, section, task } from "./testing";
+
+describe("parseSearchQuery", () => {
+  it("pulls the filter tokens out of the text", () => {
+    expect(
+      parseSearchQuery(
+        'buy is:open Section:Backlog column:"big errand" label:RED milk'
+      )
+    ).toEqual({
+      text: "buy milk",
+      status: "open",
+      sections: ["backlog"],
+      columns: ["big errand"],
+      labels: ["red"],
+    });
+  });
+
+  it("keeps unknown and empty tokens as text", () => {
+    expect(
+      parseSearchQuery('is:later due:fri label: "two words"')
+    ).toMatchObject({
+      text: "is:later due:fri label: two words",
+      status: null,
+      labels: [],
+    });
+  });
+
+  it("knows an empty query", () => {
+    expect(isEmptyQuery(parseSearchQuery("  "))).toBe(true);
+    expect(isEmptyQuery(parseSearchQuery("is:done"))).toBe(false);
+  });
+});
+
+describe("fuzzyMatch", () => {
+  it("prefers a contiguous match", () => {
+    expect(fuzzyMatch("Buy Milk", "milk")).toEqual([4, 5, 6, 7]);
+  });
+
+  it("falls back to the characters in order, skipping spaces", () => {
+    expect(fuzzyMatch("Buy milk", "by mk")).toEqual([0, 2, 4, 7]);
+    expect(fuzzyMatch("Buy milk", "kb")).toBeNull();
+  });
+
+  it("matches everything with no text", () => {
+    expect(fuzzyMatch("Buy milk", "")).toEqual([]);
+  });
+});
+
+describe("searchBoard", () => {
+  const sections = [
+    section(
+      "current",
+      "🔥 Current",
+      column(
+        "errand",
+        "Errand",
+        task("a", { title: "Buy milk", labels: ["red"] }),
+        task("b", { title: "Post letter", completed: true })
+      ),
+      column("chore", "Chore", task("c", { title: "Mop floor" }))
+    ),
+    section(
+      "backlog",
+      "📋 Backlog",
+      column("backlog-errand", "Errand", task("d", { title: "Buy paint" }))
+    ),
+  ];
+
+  const visible = (input: string) =>
+    searchBoard(sections, parseSearchQuery(input)).sections.flatMap((s) =>
+      s.columns.flatMap((col) => col.tasks.map((t) => t.id))
+    );
+
+  it("filters cards by text, status, label, section and column", () => {
+    expect(visible("buy")).toEqual(["a", "d"]);
+    expect(visible("is:done")).toEqual(["b"]);
+    expect(visible("is:open label:red")).toEqual(["a"]);
+    expect(visible("buy section:backlog")).toEqual(["d"]);
+    expect(visible("column:chore")).toEqual(["c"]);
+  });
+
+  it("keeps every section and column and highlights the matches", () => {
+    const result = searchBoard(sections, parseSearchQuery("milk"));
+    expect(result.sections.map((s) => s.columns.length)).toEqual([2, 1]);
+    expect(result.matchCount).toBe(1);
+    expect(result.highlights).toEqual(new Map([["a", [4, 5, 6, 7]]]));
+  });
+});
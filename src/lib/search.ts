@@ -0,0 +1,140 @@
+import type { Column, Section, Task } from "../types";
+
+export interface SearchQuery {
+  /** Free text, matched against task titles. */
+  text: string;
+  status: "done" | "open" | null;
+  sections: string[];
+  columns: string[];
+  labels: string[];
+}
+
+export interface SearchResult {
+  /** The board with non-matching tasks removed. */
+  sections: Section[];
+  /** Matched character positions in each visible task's title. */
+  highlights: Map<string, number[]>;
+  matchCount: number;
+}
+
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = {
+    text: "",
+    status: null,
+    sections: [],
+    columns: [],
+    labels: [],
+  };
+  const words: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const key = (match[1] ?? match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4] ?? "").toLowerCase();
+
+    if (key === "is" && (value === "done" || value === "open")) {
+      query.status = value;
+    } else if (key === "section" && value) {
+      query.sections.push(value);
+    } else if (key === "column" && value) {
+      query.columns.push(value);
+    } else if (key === "label" && value) {
+      query.labels.push(value);
+    } else {
+      words.push(match[5] ?? match[0]);
+    }
+  }
+
+  query.text = words.join(" ").trim();
+  return query;
+};
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  !query.text &&
+  !query.status &&
+  query.sections.length === 0 &&
+  query.columns.length === 0 &&
+  query.labels.length === 0;
+
+/**
+ * Positions of `needle` in `haystack`: a contiguous substring if there is
+ * one, otherwise the characters in order (fuzzy). Null when neither matches.
+ */
+export const fuzzyMatch = (
+  haystack: string,
+  needle: string
+): number[] | null => {
+  const text = haystack.toLowerCase();
+  const pattern = needle.toLowerCase();
+  if (!pattern) return [];
+
+  const start = text.indexOf(pattern);
+  if (start >= 0) {
+    return Array.from({ length: pattern.length }, (_, i) => start + i);
+  }
+
+  const positions: number[] = [];
+  let from = 0;
+  for (const char of pattern) {
+    if (char === " ") continue;
+    const index = text.indexOf(char, from);
+    if (index < 0) return null;
+    positions.push(index);
+    from = index + 1;
+  }
+  return positions;
+};
+
+const matchesName = (filters: string[], ...names: string[]) =>
+  filters.length === 0 ||
+  filters.some((filter) =>
+    names.some((name) => name.toLowerCase().includes(filter))
+  );
+
+const matchesTask = (task: Task, query: SearchQuery): number[] | null => {
+  if (query.status === "done" && !task.completed) return null;
+  if (query.status === "open" && task.completed) return null;
+  if (
+    query.labels.length > 0 &&
+    !query.labels.some((label) => task.labels?.some((l) => l === label))
+  ) {
+    return null;
+  }
+  return fuzzyMatch(task.title, query.text);
+};
+
+export const searchBoard = (
+  sections: Section[],
+  query: SearchQuery
+): SearchResult => {
+  const highlights = new Map<string, number[]>();
+
+  const filterColumn = (column: Column): Column => {
+    if (!matchesName(query.columns, column.title, column.id)) {
+      return { ...column, tasks: [] };
+    }
+    return {
+      ...column,
+      tasks: column.tasks.filter((task) => {
+        const positions = matchesTask(task, query);
+        if (positions) highlights.set(task.id, positions);
+        return !!positions;
+      }),
+    };
+  };
+
+  const filtered = sections.map((section) =>
+    matchesName(query.sections, section.title, section.id)
+      ? {
+          ...section,
+          columns: section.columns.map(filterColumn),
+        }
+      : {
+          ...section,
+          columns: section.columns.map((col) => ({ ...col, tasks: [] })),
+        }
+  );
+
+  return { sections: filtered, highlights, matchCount: highlights.size };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import type { BoardData } from "../types";
+import { DEFAULT_BOARD } from "./board";
+import { computeStats, formatDuration } from "./stats";
+import { column, section, task } from "./testing";
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+// Wednesday noon, in 2025-W25
+const NOW = new Date(2025, 5, 18, 12);
+const ago = (ms: number) => new Date(NOW.getTime() - ms).toISOString();
+
+const board: BoardData = {
+  ...DEFAULT_BOARD,
+  sections: [
+    section(
+      "finished",
+      "✅ Finished",
+      column(
+        "wed",
+        "Wed",
+        task("a", {
+          createdAt: ago(2 * DAY),
+          completedAt: ago(HOUR),
+          completedIn: "Errand",
+        }),
+        task("b", {
+          createdAt: ago(5 * HOUR),
+          completedAt: ago(HOUR),
+          completedIn: "errand",
+        })
+      )
+    ),
+    section(
+      "current",
+      "🔥 Current",
+      column(
+        "chore",
+        "Chore",
+        // Completed before timestamps were recorded: counted, but not timed
+        task("c", { completed: true, completedAt: ago(DAY) }),
+        task("d", { createdAt: ago(3 * DAY) })
+      )
+    ),
+    section(
+      "backlog",
+      "📋 Backlog",
+      column(
+        "backlog-errand",
+        "Errand",
+        task("e", { createdAt: ago(10 * DAY), movedAt: ago(2 * DAY) }),
+        task("f", { createdAt: ago(4 * DAY) }),
+        task("g"),
+        task("h", { completed: true, createdAt: ago(30 * DAY) })
+      )
+    ),
+    section("icebox", "🧊 Icebox", column("icebox-errand", "Errand")),
+  ],
+  archive: {
+    lastWeek: "2025-W25",
+    weeks: {
+      "2025-W24": {
+        week: "2025-W24",
+        archivedAt: ago(3 * DAY),
+        days: [
+          column(
+            "mon",
+            "Mon",
+            task("z", {
+              createdAt: ago(10 * DAY),
+              completedAt: ago(9 * DAY),
+              completedIn: "Chore",
+            })
+          ),
+        ],
+      },
+    },
+  },
+};
+
+describe("computeStats", () => {
+  const stats = computeStats(board, NOW, 3, 2);
+
+  it("counts completed cards per day and week, archived ones included", () => {
+    expect(stats.perDay).toEqual([
+      { key: "2025-06-16", count: 0 },
+      { key: "2025-06-17", count: 1 },
+      { key: "2025-06-18", count: 2 },
+    ]);
+    expect(stats.perWeek).toEqual([
+      { key: "2025-W24", count: 1 },
+      { key: "2025-W25", count: 3 },
+    ]);
+  });
+
+  it("averages the cycle time per column type", () => {
+    expect(stats.cycleTimes).toEqual([
+      { columnType: "Errand", count: 2, averageMs: (47 * HOUR + 4 * HOUR) / 2 },
+      { columnType: "Chore", count: 1, averageMs: DAY },
+    ]);
+  });
+
+  it("ages the open cards of Backlog and Icebox, oldest first", () => {
+    const [backlog, icebox] = stats.aging;
+    expect(backlog).toMatchObject({
+      sectionId: "backlog",
+      averageMs: 3 * DAY,
+      untracked: 1,
+    });
+    expect(
+      backlog.tasks.map(({ task, column, ageMs }) => [task.id, column, ageMs])
+    ).toEqual([
+      ["f", "Errand", 4 * DAY],
+      ["e", "Errand", 2 * DAY],
+    ]);
+    expect(icebox).toMatchObject({ tasks: [], averageMs: null, untracked: 0 });
+  });
+});
+
+describe("formatDuration", () => {
+  it.each([
+    [0, "0m"],
+    [90_000, "2m"],
+    [5 * HOUR, "5h"],
+    [2 * DAY, "2d"],
+    [3 * DAY + 4 * HOUR, "3d 4h"],
+  ])("writes %i ms as %s", (ms, text) => {
+    expect(formatDuration(ms)).toBe(text);
+  });
+});
@@ -0,0 +1,151 @@
+import type { BoardData, Task } from "../types";
+import { normalizeTitle } from "./board";
+import { toDateKey } from "./dates";
+import { getIsoWeek } from "./week";
+
+export interface CountBucket {
+  /** "YYYY-MM-DD" for days, ISO week like "2025-W07" for weeks. */
+  key: string;
+  count: number;
+}
+
+export interface CycleTime {
+  /** Column title the tasks were completed from, as first seen. */
+  columnType: string;
+  count: number;
+  averageMs: number;
+}
+
+export interface AgingTask {
+  task: Task;
+  column: string;
+  /** Time since the task was created or last moved. */
+  ageMs: number;
+}
+
+export interface SectionAging {
+  sectionId: string;
+  title: string;
+  tasks: AgingTask[];
+  averageMs: number | null;
+  /** Tasks added before timestamps were recorded. */
+  untracked: number;
+}
+
+export interface BoardStats {
+  perDay: CountBucket[];
+  perWeek: CountBucket[];
+  cycleTimes: CycleTime[];
+  aging: SectionAging[];
+}
+
+/** Sections whose cards are waiting rather than being worked on. */
+const WAITING_SECTION_IDS = ["backlog", "icebox"];
+
+const completedTasks = (board: BoardData): Task[] =>
+  [
+    ...board.sections.flatMap((section) =>
+      section.columns.flatMap((col) => col.tasks)
+    ),
+    ...Object.values(board.archive.weeks).flatMap((week) =>
+      week.days.flatMap((day) => day.tasks)
+    ),
+  ].filter((task) => task.completedAt);
+
+const countBy = (
+  keys: string[],
+  tasks: Task[],
+  keyOf: (date: Date) => string
+) =>
+  keys.map((key) => ({
+    key,
+    count: tasks.filter((task) => keyOf(new Date(task.completedAt!)) === key)
+      .length,
+  }));
+
+export const computeStats = (
+  board: BoardData,
+  now: Date = new Date(),
+  days = 14,
+  weeks = 8
+): BoardStats => {
+  const completed = completedTasks(board);
+
+  const daysAgo = (n: number) =>
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() - n);
+  const dayKeys = Array.from({ length: days }, (_, i) =>
+    toDateKey(daysAgo(days - 1 - i))
+  );
+  const weekKeys = Array.from({ length: weeks }, (_, i) =>
+    getIsoWeek(daysAgo((weeks - 1 - i) * 7))
+  );
+
+  const cycles = new Map<
+    string,
+    { columnType: string; total: number; count: number }
+  >();
+  completed.forEach((task) => {
+    if (!task.createdAt || !task.completedIn) return;
+    const key = normalizeTitle(task.completedIn);
+    const entry = cycles.get(key) ?? {
+      columnType: task.completedIn,
+      total: 0,
+      count: 0,
+    };
+    entry.total +=
+      new Date(task.completedAt!).getTime() -
+      new Date(task.createdAt).getTime();
+    entry.count += 1;
+    cycles.set(key, entry);
+  });
+
+  const aging = board.sections
+    .filter((section) => WAITING_SECTION_IDS.includes(section.id))
+    .map((section) => {
+      const open = section.columns.flatMap((col) =>
+        col.tasks
+          .filter((task) => !task.completed)
+          .map((task) => ({ task, column: col.title }))
+      );
+      const tasks = open
+        .filter(({ task }) => task.movedAt ?? task.createdAt)
+        .map(({ task, column }) => ({
+          task,
+          column,
+          ageMs:
+            now.getTime() -
+            new Date((task.movedAt ?? task.createdAt)!).getTime(),
+        }))
+        .sort((a, b) => b.ageMs - a.ageMs);
+      return {
+        sectionId: section.id,
+        title: section.title,
+        tasks,
+        averageMs: tasks.length
+          ? tasks.reduce((sum, entry) => sum + entry.ageMs, 0) / tasks.length
+          : null,
+        untracked: open.length - tasks.length,
+      };
+    });
+
+  return {
+    perDay: countBy(dayKeys, completed, toDateKey),
+    perWeek: countBy(weekKeys, completed, getIsoWeek),
+    cycleTimes: [...cycles.values()].map(({ columnType, total, count }) => ({
+      columnType,
+      count,
+      averageMs: total / count,
+    })),
+    aging,
+  };
+};
+
+/** "3d 4h", "5h", "12m": coarse enough to read at a glance. */
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return `${hours}h`;
+  return `${minutes}m`;
+};
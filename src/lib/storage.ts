@@ -0,0 +1,185 @@
+import { toDateKey } from "./dates";
+
+export interface SnapshotInfo {
+  /** Local calendar day the snapshot belongs to, as "YYYY-MM-DD". */
+  day: string;
+  savedAt: string;
+  size: number;
+}
+
+export interface SaveOptions {
+  /** Keep the value as the key's snapshot of the day, e.g. for boards. */
+  snapshot?: boolean;
+}
+
+/**
+ * Where persisted state lives. Values are serialized JSON strings; the
+ * backend also keeps one snapshot per day of the keys saved with `snapshot`
+ * when it can.
+ */
+export interface StorageBackend {
+  name: string;
+  supportsSnapshots: boolean;
+  load: (key: string) => Promise<string | null>;
+  save: (key: string, value: string, options?: SaveOptions) => Promise<void>;
+  /** Deletes the value and its snapshots. */
+  remove: (key: string) => Promise<void>;
+  listSnapshots: (key: string) => Promise<SnapshotInfo[]>;
+  loadSnapshot: (key: string, day: string) => Promise<string | null>;
+}
+
+export const SNAPSHOT_DAYS = 14;
+
+export const localStorageBackend: StorageBackend = {
+  name: "localStorage",
+  supportsSnapshots: false,
+  load: async (key) => window.localStorage.getItem(key),
+  save: async (key, value) => window.localStorage.setItem(key, value),
+  remove: async (key) => window.localStorage.removeItem(key),
+  listSnapshots: async () => [],
+  loadSnapshot: async () => null,
+};
+
+const DATABASE_NAME = "focustask";
+const VALUES_STORE = "values";
+const SNAPSHOTS_STORE = "snapshots";
+
+interface SnapshotRecord extends SnapshotInfo {
+  value: string;
+}
+
+const snapshotKey = (key: string, day: string) => `${key}/${day}`;
+const snapshotRange = (key: string) =>
+  IDBKeyRange.bound(`${key}/`, `${key}/\uffff`);
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(VALUES_STORE);
+      request.result.createObjectStore(SNAPSHOTS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const putValue = async (
+  key: string,
+  value: string,
+  { snapshot = false }: SaveOptions = {},
+  now = new Date()
+) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [VALUES_STORE, SNAPSHOTS_STORE],
+    "readwrite"
+  );
+  transaction.objectStore(VALUES_STORE).put(value, key);
+  const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+  if (!snapshot) {
+    // Drops what earlier versions kept for every key
+    snapshots.delete(snapshotRange(key));
+    await whenDone(transaction);
+    return;
+  }
+
+  const day = toDateKey(now);
+  const record: SnapshotRecord = {
+    day,
+    savedAt: now.toISOString(),
+    size: value.length,
+    value,
+  };
+  snapshots.put(record, snapshotKey(key, day));
+  // Keys sort by day, so everything before the newest few is stale
+  snapshots.getAllKeys(snapshotRange(key)).onsuccess = (e) => {
+    const keys = (e.target as IDBRequest<IDBValidKey[]>).result;
+    keys.slice(0, -SNAPSHOT_DAYS).forEach((stale) => snapshots.delete(stale));
+  };
+  await whenDone(transaction);
+};
+
+export const indexedDbBackend: StorageBackend = {
+  name: "IndexedDB",
+  supportsSnapshots: true,
+
+  load: async (key) => {
+    const db = await openDatabase();
+    const value = await toPromise<string | undefined>(
+      db.transaction(VALUES_STORE).objectStore(VALUES_STORE).get(key)
+    );
+    if (value !== undefined) return value;
+
+    // Data saved before the IndexedDB backend moves over on first load
+    const legacy = window.localStorage.getItem(key);
+    if (legacy !== null) {
+      await putValue(key, legacy);
+      window.localStorage.removeItem(key);
+    }
+    return legacy;
+  },
+
+  save: (key, value, options) => putValue(key, value, options),
+
+  remove: async (key) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [VALUES_STORE, SNAPSHOTS_STORE],
+      "readwrite"
+    );
+    transaction.objectStore(VALUES_STORE).delete(key);
+    transaction.objectStore(SNAPSHOTS_STORE).delete(snapshotRange(key));
+    await whenDone(transaction);
+    window.localStorage.removeItem(key);
+  },
+
+  listSnapshots: async (key) => {
+    const db = await openDatabase();
+    const records = await toPromise<SnapshotRecord[]>(
+      db
+        .transaction(SNAPSHOTS_STORE)
+        .objectStore(SNAPSHOTS_STORE)
+        .getAll(snapshotRange(key))
+    );
+    return records
+      .map(({ day, savedAt, size }) => ({ day, savedAt, size }))
+      .reverse();
+  },
+
+  loadSnapshot: async (key, day) => {
+    const db = await openDatabase();
+    const record = await toPromise<SnapshotRecord | undefined>(
+      db
+        .transaction(SNAPSHOTS_STORE)
+        .objectStore(SNAPSHOTS_STORE)
+        .get(snapshotKey(key, day))
+    );
+    return record?.value ?? null;
+  },
+};
+
+/** IndexedDB where the browser has it, localStorage otherwise. */
+export const defaultBackend: StorageBackend =
+  typeof window !== "undefined" && "indexedDB" in window
+    ? indexedDbBackend
+    : localStorageBackend;
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { serverUrlError } from "./sync";
+
+describe("serverUrlError", () => {
+  it.each(["http://localhost:8787", "https://sync.example.com/focus/"])(
+    "accepts %s",
+    (url) => {
+      expect(serverUrlError(url)).toBeNull();
+    }
+  );
+
+  it.each([
+    "192.168.1.5:8787",
+    "my server",
+    "localhost:8787",
+    "ftp://host",
+    "",
+  ])("rejects %o", (url) => {
+    expect(serverUrlError(url)).toEqual(expect.any(String));
+  });
+});
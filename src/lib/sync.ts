@@ -0,0 +1,96 @@
+import type { BoardData } from "../types";
+import { isRecord, SchemaError } from "./schema";
+
+/** Where this browser syncs its boards to, shared by every board. */
+export interface SyncSettings {
+  enabled: boolean;
+  /** Base URL of the sync server, e.g. "http://localhost:8787". */
+  serverUrl: string;
+  /** Sent as a bearer token when the server is started with SYNC_TOKEN. */
+  token: string;
+}
+
+/** What the sync client needs to reach the server. */
+export type SyncServer = Pick<SyncSettings, "serverUrl" | "token">;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: "http://localhost:8787",
+  token: "",
+};
+
+export interface RemoteBoardSummary {
+  id: string;
+  name: string;
+  /** Goes up by one with every accepted push. */
+  revision: number;
+  updatedAt: string;
+}
+
+export interface RemoteBoard extends RemoteBoardSummary {
+  board: BoardData;
+}
+
+/** Body of `PUT /api/boards/:id`. */
+export interface PushRequest {
+  name: string;
+  /** The revision the pushed board was based on; null for a new board. */
+  baseRevision: number | null;
+  board: BoardData;
+}
+
+/** Sent by the client over the `/api/live` WebSocket. */
+export type LiveRequest = { type: "subscribe"; boardIds: string[] };
+
+/** Sent by the server over the `/api/live` WebSocket. */
+export type LiveMessage = { type: "updated"; board: RemoteBoardSummary };
+
+/** What this browser last agreed on with the server for one board. */
+export interface SyncState {
+  serverUrl: string;
+  revision: number;
+  /** The board at `revision`, the common ancestor for the next merge. */
+  base: BoardData;
+}
+
+/** Why `serverUrl` can't be synced with, or null when it can. */
+export const serverUrlError = (serverUrl: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(serverUrl);
+  } catch {
+    return "Enter the full server address, e.g. http://192.168.1.5:8787.";
+  }
+  return url.protocol === "http:" || url.protocol === "https:"
+    ? null
+    : "The server address has to start with http:// or https://.";
+};
+
+export const parseSyncSettings = (raw: unknown): SyncSettings => {
+  if (
+    !isRecord(raw) ||
+    typeof raw.enabled !== "boolean" ||
+    typeof raw.serverUrl !== "string" ||
+    typeof raw.token !== "string"
+  ) {
+    throw new SchemaError([
+      { path: "(root)", message: "expected enabled, serverUrl and token" },
+    ]);
+  }
+  return raw as unknown as SyncSettings;
+};
+
+/**
+ * The ancestor to merge against when this browser never synced the board:
+ * nothing in common, so both sides' sections and cards are kept.
+ */
+export const emptyBase = (board: BoardData): BoardData => ({
+  ...board,
+  sections: [],
+  scheduled: [],
+  archive: { lastWeek: null, weeks: {} },
+});
+
+/** Whether two copies of a board hold the same data. */
+export const sameBoard = (a: BoardData, b: BoardData) =>
+  JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,159 @@
+import type { AddressInfo } from "node:net";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { createSyncServer } from "../../server/app";
+import { createBoardStore } from "../../server/store";
+import type { BoardData } from "../types";
+import { mergeBoards } from "./merge";
+import type { LiveMessage, SyncServer, SyncState } from "./sync";
+import {
+  fetchRemoteBoard,
+  liveUrl,
+  pushRemoteBoard,
+  syncBoard,
+  type LocalBoard,
+} from "./syncClient";
+import { boardWith, QUICKIE, task, taskIds } from "./testing";
+
+let dataDir: string;
+let server: ReturnType<typeof createSyncServer>;
+let sync: SyncServer;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "sync-client-"));
+  server = createSyncServer({
+    store: await createBoardStore(dataDir),
+    token: "secret",
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  sync = { serverUrl: `http://127.0.0.1:${port}`, token: "secret" };
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+/** A browser with its own copy of the "home" board. */
+const device = (board: BoardData) => {
+  const copy = {
+    board,
+    state: null as SyncState | null,
+    /** The base of every merge, in order. */
+    bases: [] as BoardData[],
+  };
+  const local: LocalBoard = {
+    name: () => "Home",
+    board: () => copy.board,
+    merge: (base, remote) => {
+      copy.bases.push(base);
+      copy.board = mergeBoards(base, copy.board, remote).board;
+      return copy.board;
+    },
+    agree: async (state) => {
+      copy.state = state;
+    },
+  };
+  return {
+    copy,
+    local,
+    sync: (overrides: Partial<LocalBoard> = {}) =>
+      syncBoard(sync, "home", copy.state, { ...local, ...overrides }),
+  };
+};
+
+const remoteIds = async () => {
+  const remote = await fetchRemoteBoard(sync, "home");
+  return { revision: remote?.revision, ids: taskIds(remote!.board, QUICKIE) };
+};
+
+describe("syncBoard", () => {
+  it("pushes a new board, then merges in and pushes what others added", async () => {
+    const laptop = device(boardWith(QUICKIE, task("a")));
+    const phone = device(boardWith(QUICKIE, task("b")));
+
+    await laptop.sync();
+    expect(laptop.copy.state).toMatchObject({ revision: 1 });
+
+    await phone.sync();
+    expect(taskIds(phone.copy.board, QUICKIE)).toEqual(["b", "a"]);
+    expect(await remoteIds()).toEqual({ revision: 2, ids: ["b", "a"] });
+
+    // Pulling what is already merged has nothing left to push
+    await laptop.sync();
+    expect(laptop.copy.board).toEqual(phone.copy.board);
+    expect(laptop.copy.state).toMatchObject({ revision: 2 });
+    expect((await remoteIds()).revision).toBe(2);
+  });
+
+  it("merges again on top of a push that beat its own", async () => {
+    const laptop = device(boardWith(QUICKIE, task("a")));
+    await laptop.sync();
+    const phone = device(boardWith(QUICKIE, task("b")));
+    await phone.sync();
+    laptop.copy.board = boardWith(QUICKIE, task("a"), task("c"));
+
+    // The tablet pushes between the laptop's pull and its push
+    let raced = false;
+    await laptop.sync({
+      agree: async (state) => {
+        await laptop.local.agree(state);
+        if (raced) return;
+        raced = true;
+        const pushed = await pushRemoteBoard(sync, "home", {
+          name: "Home",
+          baseRevision: state.revision,
+          board: boardWith(QUICKIE, task("a"), task("b"), task("d")),
+        });
+        expect(pushed.ok).toBe(true);
+      },
+    });
+
+    // The retry merged revision 3, the one that won, against revision 2
+    expect(laptop.copy.bases.map((base) => taskIds(base, QUICKIE))).toEqual([
+      ["a"],
+      ["b", "a"],
+    ]);
+    expect(await remoteIds()).toEqual({
+      revision: 4,
+      ids: ["a", "c", "b", "d"],
+    });
+    expect(laptop.copy.state).toMatchObject({ revision: 4 });
+  });
+});
+
+describe("liveUrl", () => {
+  it("announces another device's push so the board can be pulled", async () => {
+    const laptop = device(boardWith(QUICKIE, task("a")));
+    await laptop.sync();
+
+    const socket = new WebSocket(liveUrl(sync));
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+    socket.send(JSON.stringify({ type: "subscribe", boardIds: ["home"] }));
+    const announced = new Promise<LiveMessage>((resolve) =>
+      socket.once("message", (data) => resolve(JSON.parse(data.toString())))
+    );
+    // Let the subscription arrive before pushing
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await device(boardWith(QUICKIE, task("b"))).sync();
+    const message = await announced;
+    socket.close();
+    expect(message).toMatchObject({
+      type: "updated",
+      board: { id: "home", revision: 2 },
+    });
+    expect(message.board.revision).not.toBe(laptop.copy.state?.revision);
+
+    await laptop.sync();
+    expect(taskIds(laptop.copy.board, QUICKIE)).toEqual(["b", "a"]);
+    expect(laptop.copy.state).toMatchObject({ revision: 2 });
+  });
+});
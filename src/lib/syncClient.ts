@@ -0,0 +1,195 @@
+import type { BoardData } from "../types";
+import { isRecord, parseBoardData, SchemaError } from "./schema";
+import { defaultBackend } from "./storage";
+import {
+  emptyBase,
+  sameBoard,
+  type PushRequest,
+  type RemoteBoard,
+  type RemoteBoardSummary,
+  type SyncServer,
+  type SyncState,
+} from "./sync";
+
+export class SyncError extends Error {
+  /** HTTP status, or null when the server could not be reached. */
+  status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "SyncError";
+    this.status = status;
+  }
+}
+
+const endpoint = ({ serverUrl }: SyncServer, path: string) =>
+  `${serverUrl.replace(/\/+$/, "")}${path}`;
+
+const request = async (
+  server: SyncServer,
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint(server, path), {
+      ...init,
+      headers: {
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...(server.token ? { Authorization: `Bearer ${server.token}` } : {}),
+      },
+    });
+  } catch {
+    throw new SyncError(`Could not reach ${server.serverUrl}`, null);
+  }
+  if (!response.ok && response.status !== 404 && response.status !== 409) {
+    const body = await response.json().catch(() => null);
+    throw new SyncError(
+      isRecord(body) && typeof body.error === "string"
+        ? body.error
+        : `The sync server answered ${response.status}`,
+      response.status
+    );
+  }
+  return response;
+};
+
+/** Parses a board the server sent, migrating it like a stored one. */
+const parseRemoteBoard = (raw: RemoteBoard): RemoteBoard => {
+  const result = parseBoardData(raw.board);
+  if (!result.ok) throw new SchemaError(result.errors);
+  return { ...raw, board: result.data };
+};
+
+export const fetchRemoteBoards = async (
+  server: SyncServer
+): Promise<RemoteBoardSummary[]> => {
+  const response = await request(server, "/api/boards");
+  return (await response.json()).boards;
+};
+
+/** The board on the server, or null when it has never been pushed. */
+export const fetchRemoteBoard = async (
+  server: SyncServer,
+  boardId: string
+): Promise<RemoteBoard | null> => {
+  const response = await request(
+    server,
+    `/api/boards/${encodeURIComponent(boardId)}`
+  );
+  if (response.status === 404) return null;
+  return parseRemoteBoard(await response.json());
+};
+
+/**
+ * Stores `push.board` as the next revision. Fails with the server's current
+ * board when someone else pushed since `push.baseRevision`.
+ */
+export const pushRemoteBoard = async (
+  server: SyncServer,
+  boardId: string,
+  push: PushRequest
+): Promise<
+  { ok: true; remote: RemoteBoard } | { ok: false; current: RemoteBoard }
+> => {
+  const response = await request(
+    server,
+    `/api/boards/${encodeURIComponent(boardId)}`,
+    { method: "PUT", body: JSON.stringify(push) }
+  );
+  if (response.status === 404) {
+    throw new SyncError("The sync server does not accept boards", 404);
+  }
+  const body = await response.json();
+  return response.status === 409
+    ? { ok: false, current: parseRemoteBoard(body.current) }
+    : { ok: true, remote: parseRemoteBoard(body) };
+};
+
+/** How `syncBoard` reads and updates the local copy of a board. */
+export interface LocalBoard {
+  name: () => string;
+  board: () => BoardData;
+  /** Merges `remote` into the local board against `base`, returning it. */
+  merge: (base: BoardData, remote: BoardData) => BoardData;
+  /** Keeps a revision both sides agreed on, the base of the next merge. */
+  agree: (state: SyncState) => Promise<void>;
+}
+
+/** Pushes that keep losing the race to other devices give up after this. */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Syncs one board: pulls the server's board, merges it into the local one
+ * against `state`, what was last agreed on, and pushes the result. A push
+ * another device beat is merged and retried on top of the revision that won.
+ */
+export const syncBoard = async (
+  server: SyncServer,
+  boardId: string,
+  state: SyncState | null,
+  local: LocalBoard
+): Promise<void> => {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const remote = await fetchRemoteBoard(server, boardId);
+    let next = local.board();
+    if (remote && remote.revision !== state?.revision) {
+      next = local.merge(state?.base ?? emptyBase(remote.board), remote.board);
+      state = {
+        serverUrl: server.serverUrl,
+        revision: remote.revision,
+        base: remote.board,
+      };
+      await local.agree(state);
+    }
+    if (remote && sameBoard(next, remote.board)) return;
+
+    const pushed = await pushRemoteBoard(server, boardId, {
+      name: local.name(),
+      baseRevision: remote?.revision ?? null,
+      board: next,
+    });
+    if (pushed.ok) {
+      await local.agree({
+        serverUrl: server.serverUrl,
+        revision: pushed.remote.revision,
+        base: next,
+      });
+      return;
+    }
+    // Another device pushed first: merge its board and try again
+  }
+  throw new SyncError("The board kept changing on the server", 409);
+};
+
+/** The WebSocket URL that announces pushes, with the token as a parameter. */
+export const liveUrl = (server: SyncServer) => {
+  const url = new URL(endpoint(server, "/api/live"));
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (server.token) url.searchParams.set("token", server.token);
+  return url.toString();
+};
+
+const syncStateKey = (boardId: string) => `trello-sync:${boardId}`;
+
+/** What was last agreed on with `serverUrl`, or null if nothing was. */
+export const loadSyncState = async (
+  boardId: string,
+  serverUrl: string
+): Promise<SyncState | null> => {
+  const item = await defaultBackend.load(syncStateKey(boardId));
+  if (!item) return null;
+  const state = JSON.parse(item);
+  const base = parseBoardData(state.base);
+  return base.ok &&
+    state.serverUrl === serverUrl &&
+    typeof state.revision === "number"
+    ? { serverUrl, revision: state.revision, base: base.data }
+    : null;
+};
+
+export const saveSyncState = (boardId: string, state: SyncState) =>
+  defaultBackend.save(syncStateKey(boardId), JSON.stringify(state));
+
+export const removeSyncState = (boardId: string) =>
+  defaultBackend.remove(syncStateKey(boardId));
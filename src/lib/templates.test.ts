@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { BoardData } from "../types";
+import { DEFAULT_BOARD } from "./board";
+import { SchemaError } from "./schema";
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  instantiateSection,
+  parseTemplateList,
+  resetToTemplate,
+} from "./templates";
+import { column, section, task } from "./testing";
+
+const kanban = BUILT_IN_TEMPLATES.find((t) => t.id === "builtin-kanban")!;
+
+describe("createTemplate", () => {
+  it("keeps the layout without the cards", () => {
+    const template = createTemplate("  ", "board", [
+      section("s", "Work", column("c", "Doing", task("a"))),
+    ]);
+    expect(template.name).toBe("Untitled template");
+    expect(template.sections).toEqual([
+      section("s", "Work", column("c", "Doing")),
+    ]);
+  });
+});
+
+describe("instantiateSection", () => {
+  it("replaces only the ids the board already uses", () => {
+    const instance = instantiateSection(
+      section(
+        "current",
+        "Current",
+        column("quickie", "Quickie", task("a")),
+        column("fresh", "Fresh")
+      ),
+      DEFAULT_BOARD.sections
+    );
+    expect(instance.id).not.toBe("current");
+    expect(instance.columns.map((col) => col.id)).toEqual([
+      expect.not.stringMatching(/^quickie$/),
+      "fresh",
+    ]);
+    expect(instance.columns[0].tasks).toEqual([]);
+  });
+});
+
+describe("resetToTemplate", () => {
+  it("keeps cards in columns with the same titles and parks the rest", () => {
+    const board: BoardData = {
+      ...DEFAULT_BOARD,
+      sections: [
+        section(
+          "old",
+          "kanban",
+          column("old-doing", "Doing", task("a")),
+          column("old-later", "Later", task("b"))
+        ),
+      ],
+    };
+    const [reset] = resetToTemplate(board, kanban).sections;
+    expect(
+      reset.columns.map((col) => [col.title, ...col.tasks.map((t) => t.id)])
+    ).toEqual([["To do"], ["Doing", "a"], ["Done"], ["Unsorted", "b"]]);
+  });
+});
+
+describe("parseTemplateList", () => {
+  it("accepts saved templates and rejects malformed ones", () => {
+    const list = { templates: [createTemplate("Mine", "section", [])] };
+    expect(parseTemplateList(list)).toBe(list);
+    expect(() =>
+      parseTemplateList({ templates: [{ id: "x", name: "X", kind: "page" }] })
+    ).toThrow(SchemaError);
+    expect(() => parseTemplateList([])).toThrow(SchemaError);
+  });
+});
@@ -0,0 +1,231 @@
+import type { BoardData, Column, Section, Task } from "../types";
+import { DEFAULT_BOARD, normalizeTitle } from "./board";
+import { createId } from "./ids";
+import {
+  isRecord,
+  SchemaError,
+  validateSections,
+  type SchemaIssue,
+} from "./schema";
+import { FINISHED_SECTION_ID } from "./week";
+
+/** A board layout, or a single section, without any cards. */
+export interface Template {
+  id: string;
+  name: string;
+  kind: "board" | "section";
+  sections: Section[];
+  builtIn?: boolean;
+}
+
+export interface TemplateList {
+  templates: Template[];
+}
+
+const column = (id: string, title: string, wipLimit?: number): Column => ({
+  id,
+  title,
+  tasks: [],
+  ...(wipLimit ? { wipLimit } : {}),
+});
+
+export const BUILT_IN_TEMPLATES: Template[] = [
+  {
+    id: "builtin-focustask",
+    name: "FocusTask",
+    kind: "board",
+    sections: DEFAULT_BOARD.sections,
+    builtIn: true,
+  },
+  {
+    id: "builtin-kanban",
+    name: "Kanban",
+    kind: "board",
+    sections: [
+      {
+        id: "kanban",
+        title: "Kanban",
+        columns: [
+          column("todo", "To do"),
+          column("doing", "Doing", 3),
+          column("done", "Done"),
+        ],
+      },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "builtin-eisenhower",
+    name: "Eisenhower matrix",
+    kind: "board",
+    sections: [
+      {
+        id: "important",
+        title: "Important",
+        columns: [column("do", "Urgent: do"), column("schedule", "Schedule")],
+      },
+      {
+        id: "not-important",
+        title: "Not important",
+        columns: [
+          column("delegate", "Urgent: delegate"),
+          column("eliminate", "Eliminate"),
+        ],
+      },
+    ],
+    builtIn: true,
+  },
+];
+
+const withoutTasks = (sections: Section[]): Section[] =>
+  sections.map((section) => ({
+    ...section,
+    columns: section.columns.map((col) => ({ ...col, tasks: [] })),
+  }));
+
+export const createTemplate = (
+  name: string,
+  kind: Template["kind"],
+  sections: Section[]
+): Template => ({
+  id: createId("template"),
+  name: name.trim() || "Untitled template",
+  kind,
+  sections: withoutTasks(sections),
+});
+
+/**
+ * Every section a new section can start from: section templates, and each
+ * section of a board template.
+ */
+export const sectionChoices = (
+  templates: Template[]
+): { key: string; name: string; section: Section; template: Template }[] =>
+  templates.flatMap((template) =>
+    template.sections.map((section) => ({
+      key: `${template.id}/${section.id}`,
+      name:
+        template.kind === "section"
+          ? template.name
+          : `${template.name}: ${section.title}`,
+      section,
+      template,
+    }))
+  );
+
+const idsOf = (sections: Section[]) =>
+  new Set(
+    sections.flatMap((section) => [
+      section.id,
+      ...section.columns.map((col) => col.id),
+    ])
+  );
+
+/**
+ * A template section ready to add to `sections`. Ids the board already uses
+ * are replaced; the others are kept so a "✅ Finished" section still works
+ * as the week's finished days.
+ */
+export const instantiateSection = (
+  section: Section,
+  sections: Section[]
+): Section => {
+  const used = idsOf(sections);
+  const fresh = (id: string, prefix: string) => {
+    const next = used.has(id) ? createId(prefix) : id;
+    used.add(next);
+    return next;
+  };
+  return {
+    id: fresh(section.id, "section"),
+    title: section.title,
+    columns: section.columns.map((col) => ({
+      ...col,
+      id: fresh(col.id, "col"),
+      tasks: [],
+    })),
+  };
+};
+
+export const boardFromTemplate = (template: Template): BoardData => ({
+  ...DEFAULT_BOARD,
+  sections: withoutTasks(template.sections),
+});
+
+/**
+ * Swaps the board's layout for the template's. Cards whose section and
+ * column titles exist in the template stay in that column; the rest are
+ * kept in an "Unsorted" column in the first section that isn't the
+ * finished week.
+ */
+export const resetToTemplate = (
+  board: BoardData,
+  template: Template
+): BoardData => {
+  const layout = withoutTasks(template.sections);
+  const placed = new Map<string, Task[]>();
+  const unsorted: Task[] = [];
+
+  board.sections.forEach((section) =>
+    section.columns.forEach((col) => {
+      const target = layout
+        .find((s) => normalizeTitle(s.title) === normalizeTitle(section.title))
+        ?.columns.find(
+          (c) => normalizeTitle(c.title) === normalizeTitle(col.title)
+        );
+      if (target) {
+        placed.set(target.id, [...(placed.get(target.id) ?? []), ...col.tasks]);
+      } else {
+        unsorted.push(...col.tasks);
+      }
+    })
+  );
+
+  const home =
+    layout.find((section) => section.id !== FINISHED_SECTION_ID) ?? layout[0];
+  const used = idsOf(layout);
+  const sections = layout.map((section) => {
+    const columns = section.columns.map((col) => ({
+      ...col,
+      tasks: placed.get(col.id) ?? [],
+    }));
+    return section === home && unsorted.length > 0
+      ? {
+          ...section,
+          columns: [
+            ...columns,
+            {
+              id: used.has("unsorted") ? createId("col") : "unsorted",
+              title: "Unsorted",
+              tasks: unsorted,
+            },
+          ],
+        }
+      : { ...section, columns };
+  });
+
+  return { ...board, sections };
+};
+
+export const parseTemplateList = (raw: unknown): TemplateList => {
+  const issues: SchemaIssue[] = [];
+  if (!isRecord(raw) || !Array.isArray(raw.templates)) {
+    issues.push({ path: "templates", message: "expected a list" });
+  } else {
+    raw.templates.forEach((template: unknown, i) => {
+      const path = `templates[${i}]`;
+      if (
+        !isRecord(template) ||
+        typeof template.id !== "string" ||
+        typeof template.name !== "string" ||
+        (template.kind !== "board" && template.kind !== "section")
+      ) {
+        issues.push({ path, message: "expected id, name and kind" });
+        return;
+      }
+      issues.push(...validateSections(template.sections, `${path}.sections`));
+    });
+  }
+  if (issues.length > 0) throw new SchemaError(issues);
+  return raw as unknown as TemplateList;
+};
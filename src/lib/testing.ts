@@ -0,0 +1,50 @@
+import type { BoardData, Column, Section, Task } from "../types";
+import { boardReducer, DEFAULT_BOARD, selectColumn } from "./board";
+import type { TaskLocation } from "./board";
+
+export const QUICKIE: TaskLocation = {
+  sectionId: "current",
+  columnId: "quickie",
+};
+export const ERRANDS: TaskLocation = {
+  sectionId: "current",
+  columnId: "errand",
+};
+
+export const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  completed: false,
+  ...changes,
+});
+
+export const column = (
+  id: string,
+  title: string,
+  ...tasks: Task[]
+): Column => ({
+  id,
+  title,
+  tasks,
+});
+
+export const section = (
+  id: string,
+  title: string,
+  ...columns: Column[]
+): Section => ({ id, title, columns });
+
+/** The default board with `tasks` added to `location` one by one. */
+export const boardWith = (
+  location: TaskLocation,
+  ...tasks: Task[]
+): BoardData =>
+  tasks.reduce(
+    (board, t) =>
+      boardReducer(board, { type: "addTask", ...location, task: t }),
+    DEFAULT_BOARD
+  );
+
+/** Ids of the cards in a column, top to bottom. */
+export const taskIds = (board: BoardData, location: TaskLocation) =>
+  selectColumn(board.sections, location)?.tasks.map((t) => t.id);
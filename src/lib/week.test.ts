@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { WeekArchive } from "../types";
+import { column, section, task } from "./testing";
+import { FINISHED_SECTION_ID, getIsoWeek, rollOverWeek } from "./week";
+
+describe("getIsoWeek", () => {
+  it.each([
+    [new Date(2025, 1, 12), "2025-W07"],
+    [new Date(2020, 11, 31), "2020-W53"],
+    [new Date(2021, 0, 1), "2020-W53"],
+    [new Date(2021, 0, 3), "2020-W53"],
+    [new Date(2021, 0, 4), "2021-W01"],
+    [new Date(2023, 0, 1), "2022-W52"],
+    [new Date(2024, 11, 30), "2025-W01"],
+  ])("puts %s in %s", (date, week) => {
+    expect(getIsoWeek(date)).toBe(week);
+  });
+});
+
+describe("rollOverWeek", () => {
+  // A Wednesday in 2025-W12
+  const NOW = new Date(2025, 2, 19, 9);
+  const finished = section(
+    FINISHED_SECTION_ID,
+    "✅ Finished",
+    column("mon", "Mon", task("a", { completed: true })),
+    column("tue", "Tue")
+  );
+  const sections = [finished, section("current", "🔥 Current")];
+  const archive: WeekArchive = { lastWeek: "2025-W11", weeks: {} };
+
+  it("does nothing in the week the board was last opened in", () => {
+    expect(
+      rollOverWeek(sections, { ...archive, lastWeek: "2025-W12" }, NOW)
+    ).toBeNull();
+  });
+
+  it("only records the week on the first run", () => {
+    expect(rollOverWeek(sections, { lastWeek: null, weeks: {} }, NOW)).toEqual({
+      sections,
+      archive: { lastWeek: "2025-W12", weeks: {} },
+    });
+  });
+
+  it("archives the finished days under the week they were done in", () => {
+    const rolled = rollOverWeek(sections, archive, NOW)!;
+    expect(rolled.sections[0].columns.map((col) => col.tasks)).toEqual([
+      [],
+      [],
+    ]);
+    expect(rolled.archive.lastWeek).toBe("2025-W12");
+    expect(rolled.archive.weeks["2025-W11"]).toMatchObject({
+      week: "2025-W11",
+      archivedAt: NOW.toISOString(),
+      days: [
+        {
+          id: "mon",
+          tasks: [
+            {
+              id: "a",
+              finishedDay: "mon",
+              completedAt: NOW.toISOString(),
+            },
+          ],
+        },
+        { id: "tue", tasks: [] },
+      ],
+    });
+    expect(rollOverWeek(rolled.sections, rolled.archive, NOW)).toBeNull();
+  });
+
+  it("archives under the last open week when several were skipped", () => {
+    const later = new Date(2025, 3, 9);
+    const rolled = rollOverWeek(sections, archive, later)!;
+    expect(Object.keys(rolled.archive.weeks)).toEqual(["2025-W11"]);
+    expect(rolled.archive.lastWeek).toBe("2025-W15");
+  });
+
+  it("doesn't archive a card twice when the week was already archived", () => {
+    const { archive: archived } = rollOverWeek(sections, archive, NOW)!;
+    // Another tab archived the week while this one still shows the cards
+    const merged = rollOverWeek(
+      [
+        section(
+          FINISHED_SECTION_ID,
+          "✅ Finished",
+          column("mon", "Mon", task("a", { completed: true }), task("b")),
+          column("tue", "Tue")
+        ),
+      ],
+      { ...archived, lastWeek: "2025-W11" },
+      NOW
+    )!;
+    expect(
+      merged.archive.weeks["2025-W11"].days[0].tasks.map((t) => t.id)
+    ).toEqual(["a", "b"]);
+  });
+});
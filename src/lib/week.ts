@@ -0,0 +1,106 @@
+import type { ArchivedWeek, Column, Section, WeekArchive } from "../types";
+
+export const FINISHED_SECTION_ID = "finished";
+
+export const getIsoWeek = (date: Date): string => {
+  // ISO weeks belong to the year that contains their Thursday.
+  const d = new Date(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())
+  );
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(
+    ((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7
+  );
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
+
+const mergeDays = (existing: Column[], incoming: Column[]): Column[] => {
+  // Another tab may have archived the same week before this one caught up.
+  const archived = new Set(
+    existing.flatMap((day) => day.tasks.map((task) => task.id))
+  );
+  const merged = existing.map((day) => {
+    const match = incoming.find((col) => col.id === day.id);
+    if (!match) return day;
+    const tasks = match.tasks.filter((task) => !archived.has(task.id));
+    return { ...day, tasks: [...day.tasks, ...tasks] };
+  });
+  const added = incoming.filter(
+    (col) => !existing.some((day) => day.id === col.id)
+  );
+  return [...merged, ...added];
+};
+
+/**
+ * Moves every task in the finished section into the archive when the board
+ * is opened in a new ISO week. Returns null when nothing has to change.
+ */
+export const rollOverWeek = (
+  sections: Section[],
+  archive: WeekArchive,
+  now: Date = new Date()
+): { sections: Section[]; archive: WeekArchive } | null => {
+  const currentWeek = getIsoWeek(now);
+  if (archive.lastWeek === currentWeek) return null;
+
+  const finished = sections.find((s) => s.id === FINISHED_SECTION_ID);
+  const hasTasks = finished?.columns.some((col) => col.tasks.length > 0);
+
+  if (!archive.lastWeek || !finished || !hasTasks) {
+    return { sections, archive: { ...archive, lastWeek: currentWeek } };
+  }
+
+  const days: Column[] = finished.columns.map((col) => ({
+    ...col,
+    tasks: col.tasks.map((task) => ({
+      ...task,
+      finishedDay: task.finishedDay ?? col.id,
+      completedAt: task.completedAt ?? now.toISOString(),
+    })),
+  }));
+  const previous = archive.weeks[archive.lastWeek];
+  const archivedWeek: ArchivedWeek = {
+    week: archive.lastWeek,
+    archivedAt: now.toISOString(),
+    days: previous ? mergeDays(previous.days, days) : days,
+  };
+
+  return {
+    sections: sections.map((section) =>
+      section.id === FINISHED_SECTION_ID
+        ? {
+            ...section,
+            columns: section.columns.map((col) => ({ ...col, tasks: [] })),
+          }
+        : section
+    ),
+    archive: {
+      lastWeek: currentWeek,
+      weeks: { ...archive.weeks, [archive.lastWeek]: archivedWeek },
+    },
+  };
+};
+
+export const removeFromArchive = (
+  archive: WeekArchive,
+  week: string,
+  taskId: string
+): WeekArchive => {
+  const archivedWeek = archive.weeks[week];
+  if (!archivedWeek) return archive;
+  return {
+    ...archive,
+    weeks: {
+      ...archive.weeks,
+      [week]: {
+        ...archivedWeek,
+        days: archivedWeek.days.map((day) => ({
+          ...day,
+          tasks: day.tasks.filter((task) => task.id !== taskId),
+        })),
+      },
+    },
+  };
+};
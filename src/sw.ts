@@ -0,0 +1,59 @@
+/**
+ * Service worker that keeps the app usable offline. It precaches the whole
+ * build on install and answers from that cache first; board data never goes
+ * through it, since it lives in the browser's own storage.
+ *
+ * A new build installs next to the running one and waits until the page
+ * asks it to take over (see `useServiceWorker`).
+ */
+declare const self: ServiceWorkerGlobalScope;
+
+/** Filled in by the build; see `serviceWorker` in vite.config.ts. */
+declare const __PRECACHE_FILES__: string[];
+declare const __BUILD_VERSION__: string;
+
+const CACHE_PREFIX = "focustask-";
+const CACHE_NAME = `${CACHE_PREFIX}${__BUILD_VERSION__}`;
+/** Every page of the app is index.html. */
+const APP_SHELL = "/index.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(__PRECACHE_FILES__))
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const stale = (await caches.keys()).filter(
+        (key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME
+      );
+      await Promise.all(stale.map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Sent by `useServiceWorker` when the user chooses to reload
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skipWaiting") void self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The sync server and anything else off-site go straight to the network
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      const cached = await cache.match(
+        request.mode === "navigate" ? APP_SHELL : request,
+        { ignoreSearch: request.mode === "navigate" }
+      );
+      return cached ?? fetch(request);
+    })()
+  );
+});
@@ -0,0 +1,104 @@
+export const LABEL_COLORS = [
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+] as const;
+
+export type LabelColor = (typeof LABEL_COLORS)[number];
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/** When a recurring task comes back after it was completed. */
+export type Recurrence =
+  | { kind: "daily" }
+  | { kind: "weekdays" }
+  /** Days of the week, 0 for Sunday through 6 for Saturday. */
+  | { kind: "weekly"; days: number[] }
+  | { kind: "interval"; days: number }
+  /** Day of the month, clamped to the length of shorter months. */
+  | { kind: "monthly"; day: number };
+
+export interface Task {
+  id: string;
+  title: string;
+  completed: boolean;
+  /** Free-form notes in Markdown. */
+  description?: string;
+  /** Local calendar date, "YYYY-MM-DD". */
+  dueDate?: string;
+  labels?: LabelColor[];
+  checklist?: ChecklistItem[];
+  recurrence?: Recurrence;
+  /** ISO timestamp of when the task was added to the board. */
+  createdAt?: string;
+  /** ISO timestamp of when the task was checked off or dropped into a finished day. */
+  completedAt?: string;
+  /** Title of the column the task was completed from, e.g. "Errand". */
+  completedIn?: string;
+  /** ISO timestamp of when the task last moved to another column. */
+  movedAt?: string;
+  /** Id of the "✅ Finished" day column the task was dropped into. */
+  finishedDay?: string;
+  /** Local calendar date the task moves back to "🔥 Current" on, "YYYY-MM-DD". */
+  snoozedUntil?: string;
+}
+
+export interface Column {
+  id: string;
+  title: string;
+  tasks: Task[];
+  /** Most open cards the column should hold. */
+  wipLimit?: number;
+}
+
+export interface Section {
+  id: string;
+  title: string;
+  columns: Column[];
+}
+
+export interface ArchivedWeek {
+  /** ISO year-week, e.g. "2025-W07". */
+  week: string;
+  archivedAt: string;
+  /** Snapshot of the finished day columns, in board order. */
+  days: Column[];
+}
+
+export interface WeekArchive {
+  /** ISO year-week the board was last opened in. */
+  lastWeek: string | null;
+  weeks: Record<string, ArchivedWeek>;
+}
+
+/** A task waiting off the board until its date comes. */
+export interface ScheduledTask {
+  task: Task;
+  sectionId: string;
+  columnId: string;
+  /** Local calendar date it appears on, "YYYY-MM-DD". */
+  due: string;
+  /** The completed task this one follows on from. */
+  sourceId: string;
+}
+
+export interface BoardSettings {
+  /** Refuse new or moved cards in columns that reached their WIP limit. */
+  enforceWipLimits: boolean;
+}
+
+/** Versioned envelope persisted in localStorage and written by exports. */
+export interface BoardData {
+  version: number;
+  sections: Section[];
+  archive: WeekArchive;
+  scheduled: ScheduledTask[];
+  settings: BoardSettings;
+}
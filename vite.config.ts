@@ -1,8 +1,59 @@
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react-swc";
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { defineConfig, type Plugin } from "vite";
+
+/**
+ * Builds src/sw.ts as /sw.js and fills in what it precaches: every file of
+ * the build and of public/, and a version that changes whenever one does.
+ */
+const serviceWorker = (): Plugin => ({
+  name: "focustask-service-worker",
+  apply: "build",
+  enforce: "post",
+  config: () => ({
+    build: {
+      rollupOptions: {
+        input: { main: "index.html", sw: "src/sw.ts" },
+        output: {
+          entryFileNames: (chunk) =>
+            chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+        },
+      },
+    },
+  }),
+  generateBundle(_, bundle) {
+    const worker = bundle["sw.js"];
+    if (worker?.type !== "chunk") return;
+
+    const publicDir = path.resolve("public");
+    const files = new Map<string, string | Uint8Array>([
+      ...Object.values(bundle)
+        .filter((file) => file !== worker && !file.fileName.endsWith(".map"))
+        .map((file): [string, string | Uint8Array] => [
+          file.fileName,
+          file.type === "chunk" ? file.code : file.source,
+        ]),
+      ...readdirSync(publicDir).map((name): [string, Uint8Array] => [
+        name,
+        readFileSync(path.join(publicDir, name)),
+      ]),
+    ]);
+    const hash = createHash("sha256");
+    files.forEach((content, name) => hash.update(name).update(content));
+
+    worker.code = worker.code
+      .replace(
+        "__PRECACHE_FILES__",
+        JSON.stringify([...files.keys()].map((name) => `/${name}`))
+      )
+      .replace("__BUILD_VERSION__", JSON.stringify(hash.digest("hex").slice(0, 12)));
+  },
+});
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), serviceWorker()],
 });